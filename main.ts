@@ -6,10 +6,23 @@ import {
   Notice,
   TFolder,
   TFile,
+  ItemView,
+  WorkspaceLeaf,
   normalizePath,
   requestUrl,
   FuzzySuggestModal,
+  Modal,
   TextComponent,
+  moment,
+  CachedMetadata,
+  TAbstractFile,
+  Menu,
+  debounce,
+  RequestUrlResponse,
+  getFrontMatterInfo,
+  parseYaml,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
 } from "obsidian";
 
 interface RaindropSyncSettings {
@@ -17,10 +30,81 @@ interface RaindropSyncSettings {
   resourceFolder: string;
   autoSync: boolean;
   syncInterval: number;
+  syncOnStartup: boolean;
+  incrementalSync: boolean;
+  fullSyncIntervalHours: number;
   useCollectionFolders: boolean;
   bidirectionalSync: boolean;
   testMode: boolean;
   testModeLimit: number;
+  syncHighlights: boolean;
+  // Save cover and media images into attachmentsFolder and embed them
+  downloadImages: boolean;
+  attachmentsFolder: string;
+  // Vault path of a custom note template ("" = built-in layout)
+  noteTemplatePath: string;
+  // Managed block whose text is synced with the Raindrop note
+  noteBlock: string;
+  // Note file name, rendered with the note template placeholders
+  fileNameTemplate: string;
+  // Subfolder under resourceFolder ("" = collection folders setting)
+  folderTemplate: string;
+  deletedBookmarkAction: DeletedBookmarkAction;
+  archiveFolder: string;
+  // Abort cleanup if more than this share (%) of notes would be removed
+  deletionSafetyThreshold: number;
+  createBookmarksFromNotes: boolean;
+  // Frontmatter property that opts notes outside resourceFolder into sync
+  syncMarkerProperty: string;
+  // Raindrop tag → Obsidian tag. Learned on sync and editable in settings;
+  // several Raindrop tags may share one Obsidian tag (merges)
+  tagMappings: Record<string, string>;
+  // Raindrop REST API root, e.g. a local mock server for development
+  apiBaseUrl: string;
+  // Collections to sync (empty = all collections)
+  syncCollections: SyncCollectionSelection[];
+  // Bookmarks with any of these Raindrop tags are left out
+  excludedTags: string[];
+  // Raindrop search expression bookmarks must match ("" = no filter)
+  searchQuery: string;
+  unsortedHandling: UnsortedHandling;
+  // Folder for Unsorted bookmarks, relative to resourceFolder
+  unsortedFolder: string;
+  trashHandling: TrashHandling;
+  // Folder for trashed bookmarks when trashHandling is "folder"
+  trashFolder: string;
+  // Folder for collections other users share with us, one subfolder per owner
+  sharedFolder: string;
+  // Sync history retention: newest runs kept, and their maximum age in days
+  // (0 = no age limit)
+  historyMaxRuns: number;
+  historyMaxDays: number;
+}
+
+interface SyncCollectionSelection {
+  id: number;
+  includeChildren: boolean;
+}
+
+type DeletedBookmarkAction = "archive" | "trash" | "mark" | "delete";
+
+// Unsorted bookmarks: synced into their own folder, or not synced at all
+type UnsortedHandling = "folder" | "ignore";
+
+// Trashed bookmarks: handled like deleted ones (deletedBookmarkAction),
+// always archived, synced into a folder, or left alone
+type TrashHandling = "deleted" | "archive" | "folder" | "ignore";
+
+// Raindrop's system collections
+const UNSORTED_COLLECTION_ID = -1;
+const TRASH_COLLECTION_ID = -99;
+
+interface RaindropHighlight {
+  _id: string;
+  text: string;
+  color?: string;
+  note?: string;
+  created: string;
 }
 
 interface RaindropBookmark {
@@ -39,6 +123,8 @@ interface RaindropBookmark {
     title: string;
   };
   domain: string;
+  highlights?: RaindropHighlight[];
+  media?: Array<{ link: string; type?: string }>;
 }
 
 interface RaindropCollection {
@@ -48,6 +134,23 @@ interface RaindropCollection {
   parent?: {
     $id: number;
   };
+  // Position among its siblings (child collections)
+  sort?: number;
+  // Owning user; someone else for collections shared with us
+  user?: {
+    $id: number;
+  };
+  // Display name of that user, set by fetchCollectionTree for shared
+  // collections only
+  owner?: string;
+}
+
+// Sidebar group on the user record; lists its root collections in order
+interface RaindropGroup {
+  title: string;
+  hidden?: boolean;
+  sort?: number;
+  collections: number[];
 }
 
 interface RaindropApiResponse {
@@ -61,1480 +164,7166 @@ interface RaindropCollectionsResponse {
   items: RaindropCollection[];
 }
 
-const DEFAULT_SETTINGS: RaindropSyncSettings = {
-  apiToken: "",
-  resourceFolder: "Resources",
-  autoSync: false,
-  syncInterval: 30,
-  useCollectionFolders: true,
-  bidirectionalSync: true,
-  testMode: false,
-  testModeLimit: 5,
-};
-
-export default class RaindropSyncPlugin extends Plugin {
-  settings: RaindropSyncSettings;
-  statusBarItem: HTMLElement;
-  lastSyncTime: Date | null = null;
-
-  async onload() {
-    console.log("Loading Raindrop Sync plugin");
+interface RaindropUser {
+  _id: number;
+  fullName?: string;
+  email?: string;
+  groups?: RaindropGroup[];
+}
 
-    await this.loadSettings();
+interface RaindropCollaborator {
+  _id: number;
+  fullName?: string;
+  email?: string;
+  role?: string;
+}
 
-    // Add status bar item
-    this.statusBarItem = this.addStatusBarItem();
-    this.updateStatusBar();
+// Sync bookkeeping persisted alongside the settings in data.json
+interface RaindropSyncState {
+  // Highest RaindropBookmark.lastUpdate seen by a completed sync
+  lastUpdateCursor: string | null;
+  lastFullSync: string | null;
+  // raindrop_id → note path for every bookmark note under resourceFolder
+  noteIndex: Record<string, string>;
+  // resourceFolder the index was built for (a mismatch makes it stale)
+  noteIndexFolder: string | null;
+  // Path layout (file name/folder templates) existing notes were placed with
+  appliedPathLayout: string | null;
+  // Collection/tag/search filters the last full sync ran with
+  appliedSyncScope: string | null;
+  // raindrop_id → collection whose folder the note was last synced into
+  noteCollections: Record<string, number>;
+  // raindrop_id → editable fields as of the last sync, to tell local edits
+  // apart from what Raindrop already has
+  syncedFields: Record<string, RaindropEditableFields>;
+  // raindrop_id → highlight _id → annotation as of the last sync
+  syncedHighlights: Record<string, Record<string, string>>;
+  // collection ID → vault folder its notes were last synced into, so a
+  // renamed or re-parented collection can have its folder renamed
+  collectionFolders: Record<string, string>;
+  // Image URL → downloaded attachment ("" = can't be downloaded)
+  imageFiles: Record<string, string>;
+  // raindrop_id → attachments its note embeds
+  bookmarkImages: Record<string, string[]>;
+  // Recorded sync runs, oldest first
+  syncHistory: SyncRun[];
+}
 
-    // Add ribbon icon
-    this.addRibbonIcon("sync", "Sync Raindrop bookmarks", async () => {
-      await this.syncBookmarks();
-    });
+// Prefix for the block IDs attached to each rendered highlight
+const HIGHLIGHT_BLOCK_PREFIX = "rdhl-";
+
+type SyncTrigger = "manual" | "auto" | "startup";
+type SyncMode = "full" | "incremental";
+type SyncAction =
+  | "create"
+  | "update"
+  | "download-images"
+  | "move"
+  | "delete"
+  | "push"
+  | "create-remote"
+  | "move-remote"
+  | "rename-folder";
+
+interface RaindropNewBookmark {
+  link: string;
+  title: string;
+  tags: string[];
+  note: string;
+  collectionId: number;
+}
 
-    // Add commands
-    this.addCommand({
-      id: "raindrop-full-sync",
-      name: "Full Sync",
-      callback: async () => {
-        await this.syncBookmarks();
-      },
-    });
+// Bookmark fields that are editable from the note
+interface RaindropEditableFields {
+  title: string;
+  excerpt: string;
+  note: string;
+  tags: string[];
+  link: string;
+}
 
-    this.addCommand({
-      id: "raindrop-test-connection",
-      name: "Test Connection",
-      callback: async () => {
-        await this.testConnection();
-      },
-    });
+// Only the fields present were changed locally and are sent to Raindrop
+interface RaindropNoteUpdate extends Partial<RaindropEditableFields> {
+  highlights: Array<{ _id: string; note: string }>;
+}
 
-    this.addCommand({
-      id: "raindrop-undo-sync",
-      name: "Undo Last Sync (Delete All Synced Files)",
-      callback: async () => {
-        await this.undoSync();
-      },
-    });
+interface SyncPlanItem {
+  action: SyncAction;
+  // 0 for folder renames, which aren't tied to a bookmark
+  raindropId: number;
+  title: string;
+  path: string;
+  // Previous location, for moves
+  oldPath?: string;
+  // Content before and after the change, shown as a diff in the preview
+  before: string;
+  after: string;
+  selected: boolean;
+  bookmark?: RaindropBookmark;
+  update?: RaindropNoteUpdate;
+  newBookmark?: RaindropNewBookmark;
+  // Target collection for a note moved into another collection folder, or
+  // the collection whose folder is renamed
+  collectionId?: number;
+  // Notes edited on both sides in overlapping places
+  conflict?: NoteConflict;
+  // Delete items whose bookmark is in Raindrop's trash rather than gone
+  trashed?: boolean;
+}
 
-    this.addCommand({
-      id: "raindrop-debug-collections",
-      name: "Debug: Show Collections & Sample Bookmarks",
-      callback: async () => {
-        await this.debugCollections();
-      },
-    });
+// Where a note's collection sits, for the template context
+interface CollectionInfo {
+  collectionPath: string;
+  // Owner of a collection shared with us ("" for our own collections)
+  collectionOwner: string;
+}
 
-    // Add settings tab
-    this.addSettingTab(new RaindropSyncSettingTab(this.app, this));
-  }
+interface NoteConflict {
+  local: string;
+  remote: string;
+  // Merge result with conflict markers around the overlapping edits
+  merged: string;
+}
 
-  onunload() {
-    console.log("Unloading Raindrop Sync plugin");
-  }
+interface SyncPlan {
+  mode: SyncMode;
+  bookmarks: RaindropBookmark[];
+  collections: Map<number, RaindropCollection>;
+  items: SyncPlanItem[];
+  skippedCount: number;
+  failedBookmarks: Array<{ id: number; title: string; error: string }>;
+  // Bookmarks whose notes are up to date, recorded as synced on apply
+  unchangedBookmarks: RaindropBookmark[];
+  // Raindrop tags seen for the first time, saved on apply
+  tagMappings: Record<string, string>;
+}
 
-  async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-  }
+type SyncRunResult =
+  | "created"
+  | "updated"
+  | "moved"
+  | "deleted"
+  | "pushed"
+  | "failed";
+
+interface SyncRunItem {
+  // Unset for bookmarks that failed before an action was planned
+  action?: SyncAction;
+  result: SyncRunResult;
+  // 0 for folder renames and bookmarks created from notes
+  raindropId: number;
+  collectionId?: number;
+  title: string;
+  path: string;
+  error?: string;
+}
 
-  async saveSettings() {
-    await this.saveData(this.settings);
-  }
+// One sync, as listed in the Sync History view
+interface SyncRun {
+  startedAt: string;
+  finishedAt: string | null;
+  trigger: SyncTrigger;
+  mode: SyncMode;
+  status: "running" | "completed" | "cancelled" | "failed";
+  // Why the whole run failed
+  error?: string;
+  // Set when the run retried the failed items of an earlier one
+  retryOf?: string;
+  skippedCount: number;
+  items: SyncRunItem[];
+  // Successful items left out once a run reached MAX_SYNC_RUN_ITEMS
+  omittedCount: number;
+}
 
-  updateStatusBar() {
-    if (this.lastSyncTime) {
-      const timeString = this.lastSyncTime.toLocaleTimeString();
-      this.statusBarItem.setText(`Last sync: ${timeString}`);
-    } else {
-      this.statusBarItem.setText("Raindrop: Not synced");
-    }
-  }
+// A vault change made by a sync, with what's needed to revert it
+type SyncJournalEntry =
+  // File or folder created
+  | { op: "create"; path: string }
+  | { op: "modify"; path: string; content: string }
+  | { op: "rename"; path: string; oldPath: string }
+  // content is base64 for binary files and null for folders
+  | { op: "delete"; path: string; content: string | null; binary?: boolean };
+
+interface SyncJournal {
+  startedAt: string;
+  entries: SyncJournalEntry[];
+  // Sync state from before the sync, restored on undo
+  state: Omit<RaindropSyncState, "syncHistory">;
+}
 
-  async testConnection(): Promise<boolean> {
-    if (!this.settings.apiToken) {
-      new Notice("Please set your Raindrop API token in settings");
-      return false;
-    }
+// Kept next to data.json so the note contents it holds aren't rewritten
+// with every settings save
+const SYNC_JOURNAL_FILE = "sync-journal.json";
 
-    try {
-      const response = await requestUrl({
-        url: "https://api.raindrop.io/rest/v1/user",
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${this.settings.apiToken}`,
-        },
-      });
+// Per-run cap on recorded items; failures are always recorded
+const MAX_SYNC_RUN_ITEMS = 500;
 
-      if (response.status === 200) {
-        const data = response.json;
-        new Notice(`✓ Connected as ${data.user.fullName || data.user.email}`);
-        return true;
-      } else {
-        new Notice("✗ Connection failed. Check your API token.");
-        return false;
-      }
-    } catch (error) {
-      console.error("Connection test failed:", error);
-      new Notice("✗ Connection error. Check console for details.");
-      return false;
-    }
-  }
+const SYNC_HISTORY_VIEW_TYPE = "raindrop-sync-history";
 
-  async debugCollections(): Promise<void> {
-    if (!this.settings.apiToken) {
-      new Notice("Please set your Raindrop API token in settings");
-      return;
-    }
+const SYNC_RUN_RESULT_LABELS: Record<SyncRunResult, string> = {
+  created: "Created",
+  updated: "Updated",
+  moved: "Moved",
+  deleted: "Removed",
+  pushed: "Synced back",
+  failed: "Failed",
+};
 
-    new Notice("Fetching debug data...");
+// Identifies the same bookmark, renamed collection or new note across runs
+function getSyncItemKey(item: {
+  raindropId: number;
+  collectionId?: number;
+  action?: SyncAction;
+  path: string;
+}): string {
+  if (item.action === "rename-folder") return `collection:${item.collectionId}`;
+  return item.raindropId ? `bookmark:${item.raindropId}` : `path:${item.path}`;
+}
 
-    try {
-      // Fetch collections
-      const collections = await this.fetchCollections();
-      console.log("========================================");
-      console.log("📚 COLLECTIONS:");
-      console.log("========================================");
-      collections.forEach((col) => {
-        console.log(
-          `  - ID: ${col._id}, Title: "${col.title}", Count: ${col.count}`
-        );
-      });
+// The deletion safety threshold only kicks in above this many removals
+const DELETION_SAFETY_MIN_COUNT = 5;
 
-      // Fetch first 5 bookmarks
-      const response = await requestUrl({
-        url: `https://api.raindrop.io/rest/v1/raindrops/0?perpage=5`,
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${this.settings.apiToken}`,
-        },
-      });
+const DELETED_BOOKMARK_ACTION_LABELS: Record<DeletedBookmarkAction, string> = {
+  archive: "Archived",
+  trash: "Trashed",
+  mark: "Marked deleted",
+  delete: "Deleted",
+};
 
-      const data: RaindropApiResponse = response.json;
-      console.log("========================================");
-      console.log("🔖 SAMPLE BOOKMARKS (first 5):");
-      console.log("========================================");
-      data.items.forEach((bookmark, index) => {
-        console.log(`\n[${index + 1}] ${bookmark.title}`);
-        console.log(`    Collection ID: ${bookmark.collection?.$id}`);
-        console.log(`    Collection Title: "${bookmark.collection?.title}"`);
-        console.log(`    Has collection?: ${!!bookmark.collection}`);
-        console.log(`    Raw collection:`, bookmark.collection);
-      });
-      console.log("========================================");
-      console.log("⚙️ CURRENT SETTINGS:");
-      console.log("========================================");
-      console.log(
-        `  useCollectionFolders: ${this.settings.useCollectionFolders}`
-      );
-      console.log(`  resourceFolder: ${this.settings.resourceFolder}`);
-      console.log(`  testMode: ${this.settings.testMode}`);
-      console.log("========================================");
+// Written around Notes text that changed differently on both sides
+const CONFLICT_MARKER_START = "<<<<<<< Obsidian";
+const CONFLICT_MARKER_SEPARATOR = "=======";
+const CONFLICT_MARKER_END = ">>>>>>> Raindrop";
+
+// Plugin writes land a moment after the last_synced they record; only
+// modifications later than this count as local edits
+const LOCAL_EDIT_TOLERANCE_MS = 2000;
+
+// File extensions for downloaded images by content type
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+  "image/avif": "avif",
+};
 
-      new Notice("✓ Check console for debug output (Cmd+Option+I)");
-    } catch (error) {
-      console.error("Debug failed:", error);
-      new Notice("✗ Debug failed. Check console.");
-    }
-  }
+// Built-in note layout, also written out by "Create Template"
+const DEFAULT_NOTE_TEMPLATE = `---
+title: {{title|yaml}}
+url: {{link|yaml}}
+excerpt: {{excerpt|yaml}}
+raindrop_id: {{id}}
+collection: {{collection|yaml}}
+{{#if collectionOwner}}collection_owner: {{collectionOwner|yaml}}
+{{/if}}{{tagsYaml}}
+created: {{created}}
+last_synced: {{lastSynced}}
+type: raindrop-bookmark
+domain: {{domain|yaml}}
+added: {{added}}
+{{#if coverImage}}cover: "[[{{coverImage}}]]"
+{{/if}}---
 
-  async undoSync(): Promise<void> {
-    new Notice("Searching for Raindrop synced files...");
+<!-- raindrop:header -->
+# {{title}}
 
-    try {
-      const folder = this.app.vault.getAbstractFileByPath(
-        normalizePath(this.settings.resourceFolder)
-      );
+**URL:** [{{link}}]({{link}})
+**Collection:** {{collection}}
+{{#if tags}}**Tags:** {{tagsInline}}{{/if}}
+{{#if images}}
+{{#each images}}![[{{this}}]]
+{{/each}}{{/if}}<!-- /raindrop:header -->
 
-      if (!(folder instanceof TFolder)) {
-        new Notice("Resource folder not found");
-        return;
-      }
+<!-- raindrop:highlights -->
+{{highlightsSection}}<!-- /raindrop:highlights -->
 
-      const files = this.getAllFilesInFolder(folder);
-      let deletedCount = 0;
+## Notes
 
-      for (const file of files) {
-        if (file.extension !== "md") continue;
+<!-- raindrop:note -->
+{{note}}
+<!-- /raindrop:note -->
+`;
 
-        try {
-          // Check if file still exists before reading
-          const fileExists = this.app.vault.getAbstractFileByPath(file.path);
-          if (!fileExists) {
-            console.warn(`File no longer exists, skipping: ${file.path}`);
-            continue;
-          }
+// Upper bound for the auto-sync back-off after repeated failures (minutes)
+const MAX_SYNC_BACKOFF_MINUTES = 240;
+
+type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "var"; expression: string }
+  | {
+      kind: "if" | "unless" | "each";
+      expression: string;
+      body: TemplateNode[];
+      elseBody: TemplateNode[];
+    };
 
-          const content = await this.app.vault.read(file);
-          const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+/**
+ * Parse a note template into a tree. Supported syntax:
+ * {{name}}, {{name:DATE FORMAT}}, {{name|filter}}, {{#if name}}…{{else}}…{{/if}},
+ * {{#unless name}}…{{/unless}} and {{#each list}}…{{this}}…{{/each}}.
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{
+    node: Extract<TemplateNode, { body: TemplateNode[] }>;
+    inElse: boolean;
+  }> = [];
+  const tagPattern = /{{\s*([#/]?)([\s\S]*?)\s*}}/g;
+  let current = root;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const currentBranch = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.elseBody : top.node.body;
+  };
 
-          if (!frontmatterMatch) continue;
+  while ((match = tagPattern.exec(template)) !== null) {
+    if (match.index > lastIndex) {
+      current.push({ kind: "text", text: template.slice(lastIndex, match.index) });
+    }
+    lastIndex = tagPattern.lastIndex;
 
-          const frontmatter = frontmatterMatch[1];
+    const [, sigil, expression] = match;
 
-          // Check if this is a raindrop-synced file
-          if (frontmatter.includes("type: raindrop-bookmark")) {
-            await this.app.vault.delete(file);
-            deletedCount++;
-          }
-        } catch (error: any) {
-          console.warn(`Skipping file ${file.path}: ${error.message || error}`);
-          continue; // Continue with next file
-        }
+    if (sigil === "#") {
+      const [keyword, ...rest] = expression.trim().split(/\s+/);
+      if (keyword !== "if" && keyword !== "unless" && keyword !== "each") {
+        throw new Error(`Unknown template block: {{#${keyword}}}`);
       }
-
-      // Clean up empty folders
-      await this.cleanupEmptyFolders(folder);
-
-      new Notice(
-        `✓ Deleted ${deletedCount} synced files and cleaned up empty folders`
-      );
-      this.lastSyncTime = null;
-      this.updateStatusBar();
-    } catch (error) {
-      console.error("Undo sync failed:", error);
-      new Notice("✗ Failed to undo sync. Check console for details.");
+      const node: Extract<TemplateNode, { body: TemplateNode[] }> = {
+        kind: keyword,
+        expression: rest.join(" "),
+        body: [],
+        elseBody: [],
+      };
+      current.push(node);
+      stack.push({ node, inElse: false });
+      current = node.body;
+    } else if (sigil === "/") {
+      if (!stack.pop()) {
+        throw new Error(`Unexpected {{/${expression}}} in template`);
+      }
+      current = currentBranch();
+    } else if (expression === "else" && stack.length > 0) {
+      stack[stack.length - 1].inElse = true;
+      current = currentBranch();
+    } else {
+      current.push({ kind: "var", expression });
     }
   }
 
-  async cleanupEmptyFolders(folder: TFolder): Promise<void> {
-    // Create a copy of children array to avoid issues when deleting
-    const children = [...folder.children];
+  if (stack.length > 0) {
+    throw new Error(
+      `Unclosed {{#${stack[stack.length - 1].node.kind}}} in template`
+    );
+  }
 
-    for (const child of children) {
-      if (child instanceof TFolder) {
-        // Recursively clean subfolders first
-        await this.cleanupEmptyFolders(child);
+  if (lastIndex < template.length) {
+    current.push({ kind: "text", text: template.slice(lastIndex) });
+  }
 
-        // Check again if folder is empty (after recursive cleanup)
-        // Need to get fresh reference
-        const currentFolder = this.app.vault.getAbstractFileByPath(child.path);
-        if (
-          currentFolder instanceof TFolder &&
-          currentFolder.children.length === 0
-        ) {
-          try {
-            await this.app.vault.delete(currentFolder);
-            console.log(`Deleted empty folder: ${currentFolder.path}`);
-          } catch (error) {
-            console.error(
-              `Failed to delete empty folder ${currentFolder.path}:`,
-              error
-            );
+  return root;
+}
+
+function renderTemplate(
+  template: string,
+  context: Record<string, TemplateValue>,
+  filters: Record<string, (value: string) => string> = {}
+): string {
+  const lookup = (scopes: TemplateValue[], path: string): TemplateValue => {
+    if (path === "this") return scopes[scopes.length - 1];
+
+    const [head, ...rest] = path.split(".");
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      const scope = scopes[i];
+      if (scope && typeof scope === "object" && !Array.isArray(scope)) {
+        if (head in scope) {
+          let value: TemplateValue = scope[head];
+          for (const key of rest) {
+            value =
+              value && typeof value === "object" && !Array.isArray(value)
+                ? value[key]
+                : undefined;
           }
+          return value;
         }
       }
     }
-  }
+    return undefined;
+  };
 
-  async cleanupDeletedBookmarks(
-    syncedRaindropIds: Set<number>,
-    activeCollections: Map<number, RaindropCollection>
-  ): Promise<void> {
-    try {
-      const folder = this.app.vault.getAbstractFileByPath(
-        normalizePath(this.settings.resourceFolder)
-      );
+  const isTruthy = (value: TemplateValue) =>
+    Array.isArray(value) ? value.length > 0 : !!value;
 
-      if (!(folder instanceof TFolder)) {
-        return;
-      }
+  const stringify = (value: TemplateValue): string => {
+    if (value === null || value === undefined) return "";
+    if (Array.isArray(value)) return value.map(stringify).join(", ");
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+  };
 
-      // Find all files and check if their bookmarks still exist in Raindrop
-      const files = this.getAllFilesInFolder(folder);
-      let deletedCount = 0;
-      let movedToUnsortedCount = 0;
+  const renderVar = (scopes: TemplateValue[], expression: string) => {
+    const [reference, ...filterNames] = expression.split("|").map((p) => p.trim());
+    const formatIndex = reference.indexOf(":");
+    const path =
+      formatIndex === -1 ? reference : reference.slice(0, formatIndex).trim();
+    const format =
+      formatIndex === -1 ? null : reference.slice(formatIndex + 1).trim();
+
+    const value = lookup(scopes, path);
+    let text = stringify(value);
+
+    if (format && text) {
+      // obsidian types moment as a namespace import, but it is callable at runtime
+      const date = (moment as any)(text);
+      if (date.isValid()) text = date.format(format);
+    }
 
-      for (const file of files) {
-        if (file.extension !== "md") continue;
+    for (const name of filterNames) {
+      const filter = filters[name];
+      if (!filter) throw new Error(`Unknown template filter: ${name}`);
+      text = filter(text);
+    }
 
-        try {
-          // Check if file still exists before reading
-          const fileExists = this.app.vault.getAbstractFileByPath(file.path);
-          if (!fileExists) {
-            console.warn(`File no longer exists, skipping: ${file.path}`);
-            continue;
-          }
+    return text;
+  };
 
-          const content = await this.app.vault.read(file);
-          const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+  const renderNodes = (nodes: TemplateNode[], scopes: TemplateValue[]): string =>
+    nodes
+      .map((node) => {
+        if (node.kind === "text") return node.text;
+        if (node.kind === "var") return renderVar(scopes, node.expression);
 
-          if (!frontmatterMatch) continue;
+        const value = lookup(scopes, node.expression);
 
-          const frontmatter = frontmatterMatch[1];
-          const raindropIdMatch = frontmatter.match(/raindrop_id:\s*(\d+)/);
+        if (node.kind === "each") {
+          if (!Array.isArray(value) || value.length === 0) {
+            return renderNodes(node.elseBody, scopes);
+          }
+          return value
+            .map((item, index) =>
+              renderNodes(node.body, [
+                ...scopes,
+                { "@index": index, "@first": index === 0 },
+                item,
+              ])
+            )
+            .join("");
+        }
 
-          if (!raindropIdMatch) continue;
+        const show = node.kind === "if" ? isTruthy(value) : !isTruthy(value);
+        return renderNodes(show ? node.body : node.elseBody, scopes);
+      })
+      .join("");
 
-          const raindropId = parseInt(raindropIdMatch[1]);
+  return renderNodes(parseTemplate(template), [context]);
+}
 
-          // Check if this bookmark still exists in Raindrop
-          if (!syncedRaindropIds.has(raindropId)) {
-            // Bookmark was deleted from Raindrop
-            // Option 1: Delete the file (current behavior)
-            await this.app.vault.delete(file);
-            deletedCount++;
-            console.log(
-              `Deleted file for bookmark removed from Raindrop: ${file.path} (ID: ${raindropId})`
-            );
-          } else {
-            // Bookmark exists, but check if collection changed
-            // This will be handled by createOrUpdateNote which moves files to correct locations
-            // So we don't need to do anything here
-          }
-        } catch (error: any) {
-          console.warn(`Skipping file ${file.path}: ${error.message || error}`);
-          continue; // Continue with next file
-        }
-      }
+// lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+function lcsTable(a: string[], b: string[]): number[][] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  return lcs;
+}
 
-      // Clean up any empty folders left behind
-      await this.cleanupEmptyFolders(folder);
+/**
+ * Line diff (longest common subsequence) used by the sync preview. Very
+ * large inputs fall back to "everything removed, everything added".
+ */
+function diffLines(
+  before: string,
+  after: string
+): Array<{ type: "same" | "add" | "remove"; text: string }> {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  if (a.length * b.length > 250000) {
+    return [
+      ...a.map((text) => ({ type: "remove" as const, text })),
+      ...b.map((text) => ({ type: "add" as const, text })),
+    ];
+  }
 
-      if (deletedCount > 0) {
-        console.log(
-          `🗑️ Cleaned up ${deletedCount} file(s) for bookmarks deleted from Raindrop`
-        );
-      }
-    } catch (error) {
-      console.error("Failed to cleanup deleted bookmarks:", error);
+  const lcs = lcsTable(a, b);
+  const result: Array<{ type: "same" | "add" | "remove"; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "remove", text: a[i++] });
+    } else {
+      result.push({ type: "add", text: b[j++] });
     }
   }
+  while (i < a.length) result.push({ type: "remove", text: a[i++] });
+  while (j < b.length) result.push({ type: "add", text: b[j++] });
 
-  async updateSyncStatusNote(
-    totalBookmarks: number,
-    createdCount: number,
-    updatedCount: number,
-    syncedBackCount: number,
-    skippedCount: number = 0,
-    failedCount: number = 0
-  ): Promise<void> {
-    try {
-      const statusNotePath = normalizePath(
-        `${this.settings.resourceFolder}/Raindrop Sync Status.md`
+  return result;
+}
+
+// For each line of a, the index of the line of b it lines up with (or -1)
+function matchLines(a: string[], b: string[]): number[] {
+  const matches = new Array(a.length).fill(-1);
+  const lcs = lcsTable(a, b);
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches[i++] = j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Line-based three-way merge. Regions changed on only one side take that
+ * side; regions changed differently on both sides become conflicts, written
+ * out with conflict markers in `merged`.
+ */
+function mergeThreeWay(
+  base: string,
+  local: string,
+  remote: string
+): { merged: string; conflicts: number } {
+  const baseLines = base ? base.split("\n") : [];
+  const localLines = local ? local.split("\n") : [];
+  const remoteLines = remote ? remote.split("\n") : [];
+  const localMatches = matchLines(baseLines, localLines);
+  const remoteMatches = matchLines(baseLines, remoteLines);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let l = 0;
+  let r = 0;
+
+  const sameLines = (x: string[], y: string[]) =>
+    x.length === y.length && x.every((line, index) => line === y[index]);
+
+  const mergeChunk = (baseEnd: number, localEnd: number, remoteEnd: number) => {
+    const baseChunk = baseLines.slice(i, baseEnd);
+    const localChunk = localLines.slice(l, localEnd);
+    const remoteChunk = remoteLines.slice(r, remoteEnd);
+
+    if (sameLines(localChunk, baseChunk)) {
+      merged.push(...remoteChunk);
+    } else if (
+      sameLines(remoteChunk, baseChunk) ||
+      sameLines(localChunk, remoteChunk)
+    ) {
+      merged.push(...localChunk);
+    } else {
+      conflicts++;
+      merged.push(
+        CONFLICT_MARKER_START,
+        ...localChunk,
+        CONFLICT_MARKER_SEPARATOR,
+        ...remoteChunk,
+        CONFLICT_MARKER_END
       );
+    }
+  };
 
-      const now = new Date();
-      const dateString = now.toLocaleDateString("en-US", {
-        weekday: "long",
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-      });
-      const timeString = now.toLocaleTimeString("en-US", {
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
-      });
+  // Walk the base lines kept by both sides; everything between two such
+  // lines is one chunk to merge
+  for (let k = 0; k < baseLines.length; k++) {
+    if (localMatches[k] === -1 || remoteMatches[k] === -1) continue;
+    mergeChunk(k, localMatches[k], remoteMatches[k]);
+    merged.push(baseLines[k]);
+    i = k + 1;
+    l = localMatches[k] + 1;
+    r = remoteMatches[k] + 1;
+  }
+  mergeChunk(baseLines.length, localLines.length, remoteLines.length);
 
-      const content = `---
-type: raindrop-sync-status
-last_sync: ${now.toISOString()}
----
+  return { merged: merged.join("\n"), conflicts };
+}
 
-# 🔄 Raindrop Sync Status
+// Obsidian tags can't contain spaces or a leading #
+function normalizeObsidianTag(value: string): string {
+  return value
+    .trim()
+    .replace(/^#/, "")
+    .replace(/\s+/g, "-");
+}
 
-## Last Full Sync
+// The Notes section, up to the next level-2 heading or the end of the note
+const NOTES_SECTION_PATTERN = /^## Notes[ \t]*\n+([\s\S]*?)(?=\n## |(?![\s\S]))/m;
 
-**Date:** ${dateString}  
-**Time:** ${timeString}
+// Heading of the section generateHighlightsSection writes
+const HIGHLIGHTS_HEADING = "## Highlights";
 
-## Sync Statistics
+// Managed block holding the Highlights section in the built-in layout
+const HIGHLIGHTS_BLOCK = "highlights";
 
-- **Total Bookmarks:** ${totalBookmarks}
-- **Created:** ${createdCount}
-- **Updated:** ${updatedCount}
-- **Skipped:** ${skippedCount}
-${failedCount > 0 ? `- **Failed:** ${failedCount} ⚠️` : ""}
-${
-  this.settings.bidirectionalSync
-    ? `- **Synced Back to Raindrop:** ${syncedBackCount}`
-    : ""
+// <!-- raindrop:name --> … <!-- /raindrop:name -->
+const MANAGED_BLOCK_PATTERN =
+  /<!-- raindrop:([\w-]+) -->\n?([\s\S]*?)<!-- \/raindrop:\1 -->/g;
+
+interface NoteSegment {
+  // Managed block name, or null for text outside any block
+  block: string | null;
+  text: string;
+  // Text between the block's markers
+  inner: string;
 }
 
-## Settings
+/**
+ * Split a note body into its managed blocks and the text around them.
+ */
+function splitManagedBlocks(body: string): NoteSegment[] {
+  const segments: NoteSegment[] = [];
+  const pattern = new RegExp(MANAGED_BLOCK_PATTERN.source, "g");
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(body))) {
+    if (match.index > position) {
+      const text = body.slice(position, match.index);
+      segments.push({ block: null, text, inner: text });
+    }
+    segments.push({ block: match[1], text: match[0], inner: match[2] });
+    position = match.index + match[0].length;
+  }
+  if (position < body.length) {
+    const text = body.slice(position);
+    segments.push({ block: null, text, inner: text });
+  }
+  return segments;
+}
 
-- **Folder:** ${this.settings.resourceFolder}
-- **Use Collection Folders:** ${
-        this.settings.useCollectionFolders ? "Yes" : "No"
-      }
-- **Bidirectional Sync:** ${this.settings.bidirectionalSync ? "Yes" : "No"}
-- **Test Mode:** ${
-        this.settings.testMode
-          ? `Yes (${this.settings.testModeLimit} items)`
-          : "No"
-      }
+function hasManagedBlocks(content: string): boolean {
+  return splitManagedBlocks(content).some((segment) => segment.block !== null);
+}
 
----
+// Text inside a managed block, or null if the note doesn't have it
+function getManagedBlock(content: string, name: string): string | null {
+  const segment = splitManagedBlocks(content).find(
+    (candidate) => candidate.block === name
+  );
+  return segment ? segment.inner : null;
+}
 
-*This note is automatically updated after each sync.*
-`;
+function setManagedBlock(content: string, name: string, inner: string): string {
+  const text = inner && !inner.endsWith("\n") ? `${inner}\n` : inner;
+  return splitManagedBlocks(content)
+    .map((segment) =>
+      segment.block === name
+        ? `<!-- raindrop:${name} -->\n${text}<!-- /raindrop:${name} -->`
+        : segment.text
+    )
+    .join("");
+}
 
-      const existingFile = this.app.vault.getAbstractFileByPath(statusNotePath);
+/**
+ * Replace the managed blocks of a note with the generated ones. Text
+ * outside the blocks is the user's and is kept as written, as are blocks
+ * the template no longer writes. Generated blocks the note doesn't have
+ * yet go after the block they follow in the template.
+ */
+function mergeManagedBlocks(
+  currentBody: string,
+  generatedBody: string
+): string {
+  const generated = splitManagedBlocks(generatedBody).filter(
+    (segment) => segment.block !== null
+  );
+  const generatedByName = new Map(
+    generated.map((segment) => [segment.block, segment])
+  );
+
+  const merged: NoteSegment[] = [];
+  for (const segment of splitManagedBlocks(currentBody)) {
+    const replacement =
+      segment.block !== null ? generatedByName.get(segment.block) : undefined;
+    if (!replacement) {
+      merged.push(segment);
+    } else if (!merged.includes(replacement)) {
+      merged.push(replacement);
+    }
+  }
 
-      if (existingFile instanceof TFile) {
-        await this.app.vault.modify(existingFile, content);
-      } else {
-        await this.app.vault.create(statusNotePath, content);
+  generated.forEach((segment, index) => {
+    if (merged.includes(segment)) return;
+    for (let previous = index - 1; previous >= 0; previous--) {
+      const found = merged.indexOf(generated[previous]);
+      if (found >= 0) {
+        merged.splice(found + 1, 0, {
+          ...segment,
+          text: `\n\n${segment.text}`,
+        });
+        return;
       }
-    } catch (error) {
-      console.error("Failed to update sync status note:", error);
-      // Don't throw - this shouldn't break the sync
+    }
+    merged.unshift({ ...segment, text: `${segment.text}\n\n` });
+  });
+
+  return merged.map((segment) => segment.text).join("");
+}
+
+interface FrontmatterEntry {
+  // null for comments or blank lines before the first key
+  key: string | null;
+  text: string;
+}
+
+/**
+ * Split frontmatter YAML into its top-level entries, each with the lines
+ * that belong to it (nested values, list items, comments).
+ */
+function splitFrontmatterEntries(yaml: string): FrontmatterEntry[] {
+  const entries: FrontmatterEntry[] = [];
+  if (!yaml.trim()) return entries;
+
+  for (const line of yaml.split("\n")) {
+    const keyMatch = line.match(
+      /^(?:"([^"]+)"|'([^']+)'|([^\s#'"-][^:]*?))\s*:(?:\s|$)/
+    );
+    if (keyMatch) {
+      entries.push({
+        key: keyMatch[1] ?? keyMatch[2] ?? keyMatch[3],
+        text: line,
+      });
+    } else if (entries.length > 0) {
+      entries[entries.length - 1].text += `\n${line}`;
+    } else {
+      entries.push({ key: null, text: line });
     }
   }
+  return entries;
+}
 
-  async syncBookmarks() {
-    if (!this.settings.apiToken) {
-      new Notice("Please set your Raindrop API token in settings");
-      return;
+/**
+ * Replace the entries of keys the plugin owns with the generated ones and
+ * keep every other entry as written, in its place. Owned keys missing from
+ * the generated frontmatter are removed; new ones are appended.
+ */
+function mergeFrontmatter(
+  current: string,
+  generated: string,
+  ownedKeys: Set<string>
+): string {
+  const trailingNewline = current.endsWith("\n") ? "\n" : "";
+  const generatedEntries = new Map<string, string>();
+  for (const entry of splitFrontmatterEntries(generated.replace(/\n$/, ""))) {
+    if (entry.key !== null) generatedEntries.set(entry.key, entry.text);
+  }
+
+  const merged: string[] = [];
+  for (const entry of splitFrontmatterEntries(current.replace(/\n$/, ""))) {
+    if (entry.key === null || !ownedKeys.has(entry.key)) {
+      merged.push(entry.text);
+      continue;
     }
+    const replacement = generatedEntries.get(entry.key);
+    if (replacement !== undefined) merged.push(replacement);
+    generatedEntries.delete(entry.key);
+  }
+  merged.push(...generatedEntries.values());
 
-    const syncMessage = this.settings.testMode
-      ? `Starting sync (Test Mode: ${this.settings.testModeLimit} items)...`
-      : "Starting sync...";
-    new Notice(syncMessage);
+  return merged.join("\n") + trailingNewline;
+}
 
-    try {
-      // Bidirectional sync: Obsidian → Raindrop (FIRST to preserve local changes)
-      let syncedBackCount = 0;
-      if (this.settings.bidirectionalSync) {
-        this.statusBarItem.setText("🔄 Syncing to Raindrop...");
-        syncedBackCount = await this.syncNotesToRaindrop();
-      }
-
-      // Fetch collections if using collection folders
-      let collections: Map<number, RaindropCollection> = new Map();
-      if (this.settings.useCollectionFolders) {
-        this.statusBarItem.setText("🔄 Fetching collections...");
-        const collectionsArray = await this.fetchCollections();
-        collectionsArray.forEach((col) => collections.set(col._id, col));
-
-        // Debug: Show collection hierarchy
-        console.log("🗂️ COLLECTION HIERARCHY:");
-        collectionsArray.forEach((col) => {
-          const parentInfo = col.parent
-            ? ` → Parent ID: ${col.parent.$id}`
-            : " (Root)";
-          console.log(`  ${col.title}${parentInfo}`);
-        });
-      }
+/**
+ * Frontmatter of a note as an object. Older notes may hold values that
+ * aren't valid YAML (unquoted colons); those are read line by line.
+ */
+function parseFrontmatter(content: string): Record<string, any> {
+  const info = getFrontMatterInfo(content);
+  if (!info.exists) return {};
+
+  try {
+    return parseYaml(info.frontmatter) ?? {};
+  } catch (error) {
+    const values: Record<string, any> = {};
+    for (const entry of splitFrontmatterEntries(info.frontmatter)) {
+      if (entry.key === null) continue;
+      values[entry.key] = entry.text.slice(entry.text.indexOf(":") + 1).trim();
+    }
+    return values;
+  }
+}
 
-      // Fetch all bookmarks
-      this.statusBarItem.setText("🔄 Fetching bookmarks...");
-      const bookmarks = await this.fetchAllBookmarks();
-      const totalBookmarks = bookmarks.length;
+// Frontmatter keys a note template writes, including those in {{#if}} blocks
+function getTemplateFrontmatterKeys(template: string): string[] {
+  const frontmatter = getFrontMatterInfo(template).frontmatter;
+  const keys: string[] = [];
+  const pattern = /(?:^|\}\})[ \t]*([A-Za-z_][\w-]*):/gm;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(frontmatter))) keys.push(match[1]);
+  return keys;
+}
 
-      // Ensure base resource folder exists
-      await this.ensureFolderExists(this.settings.resourceFolder);
+interface NoteSection {
+  // "## Heading" line, or "" for the text before the first heading
+  heading: string;
+  lines: string[];
+}
 
-      // Create notes for each bookmark (Raindrop → Obsidian)
-      let createdCount = 0;
-      let updatedCount = 0;
-      let skippedCount = 0;
-      let failedCount = 0;
-      let processedCount = 0;
-      const failedBookmarks: Array<{ id: number; title: string; error: string }> = [];
+/**
+ * Split a note body at its level-2 headings (outside code blocks).
+ */
+function splitSections(body: string): NoteSection[] {
+  const sections: NoteSection[] = [{ heading: "", lines: [] }];
+  let inCodeBlock = false;
+
+  for (const line of body.split("\n")) {
+    if (/^(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock;
+    if (!inCodeBlock && /^## /.test(line)) {
+      sections.push({ heading: line.trim(), lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+  return sections;
+}
 
-      for (const bookmark of bookmarks) {
-        processedCount++;
-        // Update status bar with progress
-        this.statusBarItem.setText(
-          `🔄 Syncing ${processedCount}/${totalBookmarks}...`
-        );
+/**
+ * Replace the sections the plugin writes with the generated ones and keep
+ * the user's own sections where they are. Generated sections the note
+ * doesn't have yet go after the section they follow in the template; owned
+ * sections no longer generated are dropped.
+ */
+function mergeSections(
+  currentBody: string,
+  generatedBody: string,
+  ownedHeadings: Set<string>
+): string {
+  const generated = splitSections(generatedBody);
+  const generatedByHeading = new Map(
+    generated.map((section) => [section.heading, section])
+  );
+
+  const merged: NoteSection[] = [];
+  for (const section of splitSections(currentBody)) {
+    const replacement = generatedByHeading.get(section.heading);
+    if (replacement) {
+      if (!merged.includes(replacement)) merged.push(replacement);
+    } else if (!ownedHeadings.has(section.heading)) {
+      merged.push(section);
+    }
+  }
 
-        try {
-          const result = await this.createOrUpdateNote(bookmark, collections);
-          if (result === "created") createdCount++;
-          else if (result === "updated") updatedCount++;
-          else if (result === "skipped") skippedCount++;
-        } catch (error: any) {
-          failedCount++;
-          const errorMessage = error?.message || String(error);
-          failedBookmarks.push({
-            id: bookmark._id,
-            title: bookmark.title || "Untitled",
-            error: errorMessage,
-          });
-          console.error(
-            `Failed to sync bookmark ${bookmark._id} (${bookmark.title}):`,
-            error
-          );
-          // Continue with next bookmark instead of stopping
-        }
+  generated.forEach((section, index) => {
+    if (merged.includes(section)) return;
+    let position = 0;
+    for (let previous = index - 1; previous >= 0; previous--) {
+      const found = merged.indexOf(generated[previous]);
+      if (found >= 0) {
+        position = found + 1;
+        break;
       }
+    }
+    merged.splice(position, 0, section);
+  });
 
-      // Log failed bookmarks if any
-      if (failedBookmarks.length > 0) {
-        console.warn(
-          `⚠️ ${failedBookmarks.length} bookmarks failed to sync:`,
-          failedBookmarks
-        );
-      }
+  return ([] as string[])
+    .concat(...merged.map((section) => section.lines))
+    .join("\n");
+}
 
-      // Clean up bookmarks that were deleted from Raindrop
-      this.statusBarItem.setText("🔄 Cleaning up deleted bookmarks...");
-      const syncedRaindropIds = new Set(bookmarks.map((b) => b._id));
-      await this.cleanupDeletedBookmarks(syncedRaindropIds, collections);
+type ExportFormat = "html" | "csv" | "json";
 
-      this.lastSyncTime = new Date();
-      this.updateStatusBar();
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  html: "Netscape bookmarks (HTML)",
+  csv: "CSV",
+  json: "JSON",
+};
 
-      // Create/update sync status note
-      await this.updateSyncStatusNote(
-        totalBookmarks,
-        createdCount,
-        updatedCount,
-        syncedBackCount,
-        skippedCount,
-        failedCount
-      );
+// A bookmark note as it is exported
+interface BookmarkExport {
+  title: string;
+  url: string;
+  tags: string[];
+  collection: string;
+  // Folders below the exported folder, outermost first
+  folders: string[];
+  created: string;
+  note: string;
+}
 
-      let message = `✓ Sync completed! Created: ${createdCount}, Updated: ${updatedCount}`;
-      if (skippedCount > 0) message += `, Skipped: ${skippedCount}`;
-      if (failedCount > 0) message += `, Failed: ${failedCount}`;
-      if (this.settings.bidirectionalSync) message += `, Synced back: ${syncedBackCount}`;
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
 
-      new Notice(message);
-      
-      // Show warning if not all bookmarks were processed
-      if (totalBookmarks !== createdCount + updatedCount + skippedCount + failedCount) {
-        console.warn(
-          `⚠️ Bookmark count mismatch: Total=${totalBookmarks}, Processed=${createdCount + updatedCount + skippedCount + failedCount}`
-        );
-      }
-      
-      // Show warning if failed bookmarks exist
-      if (failedCount > 0) {
-        new Notice(
-          `⚠️ ${failedCount} bookmarks failed to sync. Check console for details.`,
-          8000
-        );
+interface ExportFolder {
+  name: string;
+  folders: Map<string, ExportFolder>;
+  bookmarks: BookmarkExport[];
+}
+
+/**
+ * Netscape bookmark file, the format browsers and bookmark services import.
+ * Each folder becomes a nested <DL> list.
+ */
+function toNetscapeBookmarks(
+  bookmarks: BookmarkExport[],
+  title: string
+): string {
+  const root: ExportFolder = { name: title, folders: new Map(), bookmarks: [] };
+  for (const bookmark of bookmarks) {
+    let folder = root;
+    for (const name of bookmark.folders) {
+      let child = folder.folders.get(name);
+      if (!child) {
+        child = { name, folders: new Map(), bookmarks: [] };
+        folder.folders.set(name, child);
       }
-    } catch (error) {
-      console.error("Sync failed:", error);
-      new Notice("✗ Sync failed. Check console for details.");
-      this.updateStatusBar(); // Restore status bar
+      folder = child;
     }
+    folder.bookmarks.push(bookmark);
   }
 
-  async fetchCollections(): Promise<RaindropCollection[]> {
-    try {
-      const response = await requestUrl({
-        url: "https://api.raindrop.io/rest/v1/collections",
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${this.settings.apiToken}`,
-        },
-      });
-
-      if (response.status !== 200) {
-        throw new Error(`Failed to fetch collections: ${response.status}`);
+  const lines = [
+    "<!DOCTYPE NETSCAPE-Bookmark-file-1>",
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    `<TITLE>${escapeHtml(title)}</TITLE>`,
+    `<H1>${escapeHtml(title)}</H1>`,
+    "<DL><p>",
+  ];
+  const writeFolder = (folder: ExportFolder, indent: string) => {
+    for (const child of folder.folders.values()) {
+      lines.push(`${indent}<DT><H3>${escapeHtml(child.name)}</H3>`);
+      lines.push(`${indent}<DL><p>`);
+      writeFolder(child, `${indent}    `);
+      lines.push(`${indent}</DL><p>`);
+    }
+    for (const bookmark of folder.bookmarks) {
+      const attributes = [`HREF="${escapeHtml(bookmark.url)}"`];
+      const added = Date.parse(bookmark.created);
+      if (!isNaN(added)) {
+        attributes.push(`ADD_DATE="${Math.floor(added / 1000)}"`);
+      }
+      if (bookmark.tags.length > 0) {
+        attributes.push(`TAGS="${escapeHtml(bookmark.tags.join(","))}"`);
+      }
+      lines.push(
+        `${indent}<DT><A ${attributes.join(" ")}>${escapeHtml(
+          bookmark.title
+        )}</A>`
+      );
+      if (bookmark.note) {
+        lines.push(
+          `${indent}<DD>${escapeHtml(bookmark.note).replace(/\n/g, "<br>")}`
+        );
       }
+    }
+  };
+  writeFolder(root, "    ");
+  lines.push("</DL><p>");
 
-      const data: RaindropCollectionsResponse = response.json;
+  return lines.join("\n") + "\n";
+}
 
-      // Debug: Check all collections for parent field
-      console.log("🔍 Checking all collections for parent field:");
-      data.items.forEach((col, index) => {
-        const hasParentField = "parent" in col;
-        const parentValue = (col as any).parent;
-        if (parentValue !== null && parentValue !== undefined) {
-          console.log(`  [${index}] ${col.title} → parent:`, parentValue);
-        }
-      });
+function toBookmarksCsv(bookmarks: BookmarkExport[]): string {
+  const quote = (value: string) =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const rows = [
+    ["title", "url", "tags", "collection", "folder", "created", "note"],
+    ...bookmarks.map((bookmark) => [
+      bookmark.title,
+      bookmark.url,
+      bookmark.tags.join(", "),
+      bookmark.collection,
+      bookmark.folders.join("/"),
+      bookmark.created,
+      bookmark.note,
+    ]),
+  ];
+  return rows.map((row) => row.map(quote).join(",")).join("\n") + "\n";
+}
 
-      const withParents = data.items.filter((col) => {
-        const hasParent = col.parent && col.parent.$id;
-        return hasParent;
-      });
-      console.log(
-        `📊 Collections with valid parents: ${withParents.length} out of ${data.items.length}`
-      );
+function toBookmarksJson(bookmarks: BookmarkExport[]): string {
+  return JSON.stringify(
+    bookmarks.map(({ folders, ...bookmark }) => ({
+      ...bookmark,
+      folder: folders.join("/"),
+    })),
+    null,
+    2
+  ) + "\n";
+}
 
-      return data.items;
-    } catch (error) {
-      console.error("Failed to fetch collections:", error);
-      return [];
-    }
-  }
+const DEFAULT_SYNC_STATE: RaindropSyncState = {
+  lastUpdateCursor: null,
+  lastFullSync: null,
+  noteIndex: {},
+  noteIndexFolder: null,
+  appliedPathLayout: null,
+  appliedSyncScope: null,
+  noteCollections: {},
+  syncedFields: {},
+  syncedHighlights: {},
+  collectionFolders: {},
+  imageFiles: {},
+  bookmarkImages: {},
+  syncHistory: [],
+};
 
-  async fetchAllBookmarks(): Promise<RaindropBookmark[]> {
-    const allBookmarks: RaindropBookmark[] = [];
-    let page = 0;
-    const perPage = 50;
-    let hasMore = true;
-    let totalCountFromAPI: number | null = null;
+const DEFAULT_SETTINGS: RaindropSyncSettings = {
+  apiToken: "",
+  resourceFolder: "Resources",
+  autoSync: false,
+  syncInterval: 30,
+  syncOnStartup: false,
+  incrementalSync: true,
+  fullSyncIntervalHours: 24,
+  useCollectionFolders: true,
+  bidirectionalSync: true,
+  testMode: false,
+  testModeLimit: 5,
+  syncHighlights: true,
+  downloadImages: false,
+  attachmentsFolder: "Raindrop Attachments",
+  noteTemplatePath: "",
+  noteBlock: "note",
+  fileNameTemplate: "{{title}}",
+  folderTemplate: "",
+  deletedBookmarkAction: "archive",
+  archiveFolder: "Raindrop Archive",
+  deletionSafetyThreshold: 25,
+  createBookmarksFromNotes: false,
+  syncMarkerProperty: "raindrop",
+  tagMappings: {},
+  apiBaseUrl: "https://api.raindrop.io/rest/v1",
+  syncCollections: [],
+  excludedTags: [],
+  searchQuery: "",
+  unsortedHandling: "folder",
+  unsortedFolder: "Unsorted",
+  trashHandling: "deleted",
+  trashFolder: "Trash",
+  sharedFolder: "Shared",
+  historyMaxRuns: 50,
+  historyMaxDays: 30,
+};
 
-    console.log("📥 Starting to fetch bookmarks from Raindrop API...");
+// Retries for rate-limited, failed and 5xx requests before giving up
+const API_MAX_RETRIES = 3;
+const API_BACKOFF_BASE_MS = 1000;
+// Minimum spacing between two requests
+const API_MIN_REQUEST_INTERVAL_MS = 100;
 
-    while (hasMore) {
-      try {
-        const response = await requestUrl({
-          url: `https://api.raindrop.io/rest/v1/raindrops/0?perpage=${perPage}&page=${page}`,
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${this.settings.apiToken}`,
-          },
-        });
+class RaindropApiError extends Error {
+  status: number;
 
-        if (response.status !== 200) {
-          throw new Error(`API request failed: ${response.status}`);
-        }
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "RaindropApiError";
+    this.status = status;
+  }
+}
 
-        const data: RaindropApiResponse = response.json;
+class RaindropAuthError extends RaindropApiError {
+  constructor(status: number) {
+    super("Raindrop rejected the API token", status);
+    this.name = "RaindropAuthError";
+  }
+}
 
-        // Store total count from API (first page)
-        if (totalCountFromAPI === null && data.count !== undefined) {
-          totalCountFromAPI = data.count;
-          console.log(`📊 Total bookmarks in Raindrop: ${totalCountFromAPI}`);
-        }
+class RaindropRateLimitError extends RaindropApiError {
+  retryAfterMs: number;
 
-        console.log(
-          `📄 Page ${page + 1}: Fetched ${data.items.length} bookmarks (Total so far: ${allBookmarks.length + data.items.length})`
-        );
+  constructor(retryAfterMs: number) {
+    super("Raindrop rate limit reached", 429);
+    this.name = "RaindropRateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
 
-        allBookmarks.push(...data.items);
+class RaindropNotFoundError extends RaindropApiError {
+  constructor(path: string) {
+    super(`Not found in Raindrop: ${path}`, 404);
+    this.name = "RaindropNotFoundError";
+  }
+}
 
-        // Check test mode limit
-        if (
-          this.settings.testMode &&
-          allBookmarks.length >= this.settings.testModeLimit
-        ) {
-          console.log(
-            `🧪 Test mode: Limiting to ${this.settings.testModeLimit} bookmarks`
-          );
-          return allBookmarks.slice(0, this.settings.testModeLimit);
-        }
-
-        // Check if there are more pages
-        // Continue if we got a full page, or if we haven't reached the total count yet
-        hasMore = data.items.length === perPage;
-        
-        // Also check if we've fetched all bookmarks according to API count
-        if (totalCountFromAPI !== null && allBookmarks.length >= totalCountFromAPI) {
-          hasMore = false;
-          console.log(
-            `✓ Fetched all ${allBookmarks.length} bookmarks (API reported ${totalCountFromAPI})`
-          );
-        }
+class RaindropServerError extends RaindropApiError {
+  constructor(status: number) {
+    super(`Raindrop server error (${status})`, status);
+    this.name = "RaindropServerError";
+  }
+}
 
-        page++;
+// User-facing explanation for a failed API call
+function describeApiError(error: unknown): string {
+  if (error instanceof RaindropAuthError) {
+    return "Raindrop rejected the API token. Check it in the plugin settings.";
+  }
+  if (error instanceof RaindropRateLimitError) {
+    return `Raindrop rate limit reached. Try again in ${Math.ceil(
+      error.retryAfterMs / 1000
+    )}s.`;
+  }
+  if (error instanceof RaindropServerError) {
+    return `Raindrop is having problems (${error.status}). Try again later.`;
+  }
+  if (error instanceof RaindropApiError) return error.message;
+  return "Could not reach Raindrop. Check console for details.";
+}
 
-        // Add a small delay to respect rate limits
-        if (hasMore) {
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
-      } catch (error) {
-        console.error(`❌ Error fetching page ${page}:`, error);
-        throw error; // Re-throw to stop sync if API fails
-      }
-    }
+/**
+ * Thin wrapper around the Raindrop REST API. Every request goes through
+ * request(), which paces calls, waits out rate limits (Retry-After and
+ * X-RateLimit-* headers), retries network and 5xx failures with
+ * exponential backoff, and turns error statuses into typed errors.
+ */
+class RaindropClient {
+  getConfig: () => { apiToken: string; baseUrl: string };
+  lastRequestAt = 0;
+  // Epoch ms until which X-RateLimit-Remaining said no requests are left
+  rateLimitedUntil = 0;
+
+  constructor(getConfig: () => { apiToken: string; baseUrl: string }) {
+    this.getConfig = getConfig;
+  }
 
-    console.log(
-      `✅ Finished fetching: ${allBookmarks.length} bookmarks total${
-        totalCountFromAPI !== null
-          ? ` (API reported ${totalCountFromAPI})`
-          : ""
-      }`
+  getUser(): Promise<RaindropUser> {
+    return this.request<{ user: RaindropUser }>("GET", "/user").then(
+      (data) => data.user
     );
-
-    // Warn if count mismatch
-    if (
-      totalCountFromAPI !== null &&
-      allBookmarks.length !== totalCountFromAPI
-    ) {
-      console.warn(
-        `⚠️ Bookmark count mismatch: Fetched ${allBookmarks.length}, but API reported ${totalCountFromAPI}`
-      );
-    }
-
-    return allBookmarks;
   }
 
-  async syncNotesToRaindrop(): Promise<number> {
-    let syncedCount = 0;
-
-    try {
-      // Find all raindrop bookmark notes
-      const folder = this.app.vault.getAbstractFileByPath(
-        normalizePath(this.settings.resourceFolder)
-      );
-
-      if (!(folder instanceof TFolder)) {
-        return 0;
-      }
-
-      const files = this.getAllFilesInFolder(folder);
-      let processedFiles = 0;
-      const totalFiles = files.length;
-
-      for (const file of files) {
-        processedFiles++;
-
-        if (file.extension !== "md") continue;
-
-        // Update progress
-        if (totalFiles > 10) {
-          this.statusBarItem.setText(
-            `🔄 Checking ${processedFiles}/${totalFiles} notes...`
-          );
-        }
-
-        try {
-          // Check if file still exists before reading
-          const fileExists = this.app.vault.getAbstractFileByPath(file.path);
-          if (!fileExists) {
-            console.warn(`File no longer exists, skipping: ${file.path}`);
-            continue;
-          }
-
-          const content = await this.app.vault.read(file);
-          const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-
-          if (!frontmatterMatch) continue;
-
-          const frontmatter = frontmatterMatch[1];
-          const raindropIdMatch = frontmatter.match(/raindrop_id:\s*(\d+)/);
-          const lastSyncedMatch = frontmatter.match(/last_synced:\s*(.+)/);
-
-          if (!raindropIdMatch) continue;
-
-          const raindropId = parseInt(raindropIdMatch[1]);
-          const lastSynced = lastSyncedMatch
-            ? new Date(lastSyncedMatch[1])
-            : new Date(0);
-          const fileModified = new Date(file.stat.mtime);
+  // Root collections only
+  getCollections(): Promise<RaindropCollection[]> {
+    return this.request<RaindropCollectionsResponse>("GET", "/collections").then(
+      (data) => data.items
+    );
+  }
 
-          // Only sync if file was modified after last sync
-          if (fileModified <= lastSynced) continue;
+  // Every nested (non-root) collection
+  getChildCollections(): Promise<RaindropCollection[]> {
+    return this.request<RaindropCollectionsResponse>(
+      "GET",
+      "/collections/childrens"
+    ).then((data) => data.items);
+  }
 
-          // Extract notes section (now at the end of file)
-          const notesMatch = content.match(/## Notes\n+([\s\S]*?)$/);
-          if (!notesMatch) continue;
+  getCollaborators(collectionId: number): Promise<RaindropCollaborator[]> {
+    return this.request<{ items: RaindropCollaborator[] }>(
+      "GET",
+      `/collection/${collectionId}/sharing`
+    ).then((data) => data.items);
+  }
 
-          const notes = notesMatch[1].trim();
+  getRaindrops(
+    collectionId: number,
+    params: {
+      page?: number;
+      perpage?: number;
+      sort?: string;
+      search?: string;
+      nested?: boolean;
+    } = {}
+  ): Promise<RaindropApiResponse> {
+    const query = Object.entries(params)
+      .filter(([, value]) => value !== undefined && value !== "")
+      .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+      .join("&");
+    return this.request<RaindropApiResponse>(
+      "GET",
+      `/raindrops/${collectionId}${query ? `?${query}` : ""}`
+    );
+  }
 
-          // Skip if notes are empty or just whitespace
-          if (!notes || notes.length === 0) continue;
+  createRaindrop(data: Record<string, unknown>): Promise<RaindropBookmark> {
+    return this.request<{ item: RaindropBookmark }>("POST", "/raindrop", data).then(
+      (response) => response.item
+    );
+  }
 
-          // Extract tags from frontmatter
-          const tagsMatch = frontmatter.match(/tags:\n((?:  - .+\n?)*)/);
-          let tags: string[] = [];
-          if (tagsMatch) {
-            tags = tagsMatch[1]
-              .split("\n")
-              .map((line) => line.replace(/^\s*-\s*/, "").trim())
-              .filter((tag) => tag.length > 0)
-              .map((tag) => this.convertTagToRaindropFormat(tag));
-          }
+  updateRaindrop(
+    raindropId: number,
+    data: Record<string, unknown>
+  ): Promise<RaindropBookmark> {
+    return this.request<{ item: RaindropBookmark }>(
+      "PUT",
+      `/raindrop/${raindropId}`,
+      data
+    ).then((response) => response.item);
+  }
 
-          // Update Raindrop via API
-          await this.updateRaindropNote(raindropId, notes, tags);
+  async deleteRaindrop(raindropId: number): Promise<void> {
+    await this.request("DELETE", `/raindrop/${raindropId}`);
+  }
 
-          // Update last_synced in frontmatter
-          const newContent = content.replace(
-            /last_synced:\s*.+/,
-            `last_synced: ${new Date().toISOString()}`
-          );
-          await this.app.vault.modify(file, newContent);
+  async request<T>(
+    method: string,
+    path: string,
+    body?: Record<string, unknown>
+  ): Promise<T> {
+    const { apiToken, baseUrl } = this.getConfig();
 
-          syncedCount++;
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForTurn();
 
-          // Rate limiting
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        } catch (error: any) {
-          console.warn(`Skipping file ${file.path}: ${error.message || error}`);
-          continue; // Continue with next file instead of stopping
-        }
+      let response: RequestUrlResponse;
+      try {
+        response = await requestUrl({
+          url: `${baseUrl.replace(/\/+$/, "")}${path}`,
+          method,
+          headers: {
+            Authorization: `Bearer ${apiToken}`,
+            ...(body ? { "Content-Type": "application/json" } : {}),
+          },
+          body: body ? JSON.stringify(body) : undefined,
+          throw: false,
+        });
+      } catch (error) {
+        // Network failure: no status to go by
+        if (attempt >= API_MAX_RETRIES) throw error;
+        await this.backoff(attempt, `${method} ${path} failed`);
+        continue;
       }
-    } catch (error) {
-      console.error("Failed to sync notes to Raindrop:", error);
-    }
 
-    return syncedCount;
-  }
+      this.trackRateLimit(response);
+      const { status } = response;
 
-  getAllFilesInFolder(folder: TFolder): TFile[] {
-    const files: TFile[] = [];
+      if (status >= 200 && status < 300) return response.json as T;
+      if (status === 401 || status === 403) throw new RaindropAuthError(status);
+      if (status === 404) throw new RaindropNotFoundError(path);
 
-    for (const child of folder.children) {
-      if (child instanceof TFile) {
-        files.push(child);
-      } else if (child instanceof TFolder) {
-        files.push(...this.getAllFilesInFolder(child));
+      if (status === 429) {
+        const retryAfterMs = this.getRetryAfterMs(response);
+        if (attempt >= API_MAX_RETRIES) {
+          throw new RaindropRateLimitError(retryAfterMs);
+        }
+        console.warn(
+          `⏳ Rate limited on ${method} ${path}, retrying in ${Math.ceil(
+            retryAfterMs / 1000
+          )}s`
+        );
+        await sleep(retryAfterMs);
+        continue;
       }
-    }
-
-    return files;
-  }
-
-  async updateRaindropNote(
-    raindropId: number,
-    notes: string,
-    tags?: string[]
-  ): Promise<void> {
-    try {
-      const updateData: any = {
-        note: notes,
-      };
 
-      if (tags && tags.length > 0) {
-        updateData.tags = tags;
+      if (status >= 500) {
+        if (attempt >= API_MAX_RETRIES) throw new RaindropServerError(status);
+        await this.backoff(attempt, `${method} ${path} returned ${status}`);
+        continue;
       }
 
-      await requestUrl({
-        url: `https://api.raindrop.io/rest/v1/raindrop/${raindropId}`,
-        method: "PUT",
-        headers: {
-          Authorization: `Bearer ${this.settings.apiToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(updateData),
-      });
-    } catch (error) {
-      console.error(`Failed to update raindrop ${raindropId}:`, error);
-      throw error;
+      throw new RaindropApiError(
+        `${method} ${path} failed with status ${status}`,
+        status
+      );
     }
   }
 
-  convertTagToRaindropFormat(tag: string): string {
-    // Convert "ai-in-ux" to "AI in UX"
-    return tag
-      .split("-")
-      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(" ");
+  async waitForTurn() {
+    const now = Date.now();
+    const wait = Math.max(
+      this.lastRequestAt + API_MIN_REQUEST_INTERVAL_MS - now,
+      this.rateLimitedUntil - now,
+      0
+    );
+    if (wait > 0) await sleep(wait);
+    this.lastRequestAt = Date.now();
   }
 
-  getCollectionPath(
-    collectionId: number,
-    collections: Map<number, RaindropCollection>
-  ): string {
-    const pathParts: string[] = [];
-    let currentId: number | undefined = collectionId;
+  async backoff(attempt: number, reason: string) {
+    const delay = API_BACKOFF_BASE_MS * Math.pow(2, attempt);
+    console.warn(`⏳ ${reason}, retrying in ${delay / 1000}s`);
+    await sleep(delay);
+  }
 
-    // Walk up the parent chain to build the full path
-    while (currentId !== undefined) {
-      const collection = collections.get(currentId);
-      if (!collection) break;
+  trackRateLimit(response: RequestUrlResponse) {
+    const remaining = parseInt(getHeader(response, "x-ratelimit-remaining"));
+    const reset = parseInt(getHeader(response, "x-ratelimit-reset"));
+    this.rateLimitedUntil =
+      remaining === 0 && !isNaN(reset) ? reset * 1000 : 0;
+  }
 
-      // Add current collection title to the path
-      pathParts.unshift(this.sanitizeFileName(collection.title));
+  getRetryAfterMs(response: RequestUrlResponse): number {
+    // Retry-After is either a number of seconds or an HTTP date
+    const retryAfter = getHeader(response, "retry-after");
+    const seconds = Number(retryAfter);
+    if (retryAfter && !isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(date - Date.now(), 0);
 
-      // Move to parent
-      currentId = collection.parent?.$id;
-    }
+    const reset = parseInt(getHeader(response, "x-ratelimit-reset"));
+    if (!isNaN(reset)) return Math.max(reset * 1000 - Date.now(), 0);
 
-    // Join all parts with /
-    return pathParts.join("/");
+    return API_BACKOFF_BASE_MS * 60;
   }
+}
 
-  async ensureFolderExists(folderPath: string): Promise<void> {
-    const normalizedPath = normalizePath(folderPath);
-    const folder = this.app.vault.getAbstractFileByPath(normalizedPath);
+/**
+ * The user's collection hierarchy: roots in sidebar order (by group, as on
+ * the user record) and children sorted the way Raindrop shows them.
+ */
+class CollectionTree {
+  collections: Map<number, RaindropCollection> = new Map();
+  groups: Array<{ title: string; roots: RaindropCollection[] }> = [];
+  childrenById: Map<number, RaindropCollection[]> = new Map();
 
-    if (!folder) {
-      try {
-        await this.app.vault.createFolder(normalizedPath);
-      } catch (error: any) {
-        // Ignore "already exists" errors - this can happen with race conditions
-        if (!error.message?.includes("already exists")) {
-          throw error;
-        }
-      }
+  constructor(
+    roots: RaindropCollection[],
+    children: RaindropCollection[],
+    groups: RaindropGroup[] = []
+  ) {
+    for (const collection of [...roots, ...children]) {
+      this.collections.set(collection._id, collection);
     }
-  }
-
-  async createOrUpdateNote(
-    bookmark: RaindropBookmark,
-    collections: Map<number, RaindropCollection>
-  ): Promise<"created" | "updated" | "skipped"> {
-    // Determine folder path based on settings
-    let folderPath = this.settings.resourceFolder;
-    let collectionTitle = "Unsorted";
 
-    // Look up collection title from the collections map using the collection ID
-    if (bookmark.collection?.$id) {
-      const collection = collections.get(bookmark.collection.$id);
-      if (collection?.title) {
-        collectionTitle = collection.title;
-      }
+    for (const collection of children) {
+      const parentId = collection.parent?.$id;
+      if (parentId === undefined || !this.collections.has(parentId)) continue;
+      this.childrenById.set(parentId, [
+        ...(this.childrenById.get(parentId) ?? []),
+        collection,
+      ]);
     }
-
-    if (this.settings.useCollectionFolders) {
-      if (collectionTitle && collectionTitle !== "Unsorted") {
-        // Build full nested path including parent groups
-        const collectionPath = this.getCollectionPath(
-          bookmark.collection.$id,
-          collections
-        );
-        folderPath = `${this.settings.resourceFolder}/${collectionPath}`;
-        console.log(`📁 "${bookmark.title}" → ${collectionPath}`);
-      } else {
-        // Use Unsorted folder
-        folderPath = `${this.settings.resourceFolder}/Unsorted`;
-      }
-
-      // Ensure folder exists (creates all parent folders)
-      await this.ensureFolderExists(folderPath);
+    for (const siblings of this.childrenById.values()) {
+      siblings.sort((a, b) => (a.sort ?? 0) - (b.sort ?? 0));
     }
 
-    // Sanitize filename and ensure uniqueness
-    const baseFileName = this.sanitizeFileName(bookmark.title);
-    const fileName = await this.ensureUniqueFileName(
-      folderPath,
-      baseFileName,
-      bookmark._id
-    );
-    const filePath = normalizePath(`${folderPath}/${fileName}.md`);
+    const grouped = new Set<number>();
+    for (const group of [...groups].sort(
+      (a, b) => (a.sort ?? 0) - (b.sort ?? 0)
+    )) {
+      const groupRoots = group.collections
+        .map((id) => this.collections.get(id))
+        .filter((collection): collection is RaindropCollection => !!collection);
+      groupRoots.forEach((collection) => grouped.add(collection._id));
+      this.groups.push({ title: group.title, roots: groupRoots });
+    }
 
-    // Check if file exists elsewhere (moved to different collection)
-    const existingFileInDifferentLocation = await this.findFileByRaindropId(
-      bookmark._id
+    // Roots missing from every group, and children whose parent we can't
+    // see, are listed last so nothing is lost
+    const ungrouped = [...this.collections.values()].filter(
+      (collection) =>
+        !grouped.has(collection._id) &&
+        (collection.parent?.$id === undefined ||
+          !this.collections.has(collection.parent.$id))
     );
-    if (
-      existingFileInDifferentLocation &&
-      existingFileInDifferentLocation.path !== filePath
-    ) {
-      // Delete old file and create new one in correct location
-      await this.app.vault.delete(existingFileInDifferentLocation);
+    if (ungrouped.length > 0) {
+      this.groups.push({ title: "Other", roots: ungrouped });
     }
+  }
 
-    // Generate note content
-    const noteContent = this.generateNoteContent(bookmark, collectionTitle);
+  get size(): number {
+    return this.collections.size;
+  }
 
-    // Check if file exists at target location
-    const existingFile = this.app.vault.getAbstractFileByPath(filePath);
+  get(id: number): RaindropCollection | undefined {
+    return this.collections.get(id);
+  }
 
-    if (existingFile instanceof TFile) {
-      // Update existing file
-      let currentContent: string;
-      try {
-        currentContent = await this.app.vault.read(existingFile);
-      } catch (error) {
-        console.warn(
-          `File exists in vault but cannot be read: ${filePath}. Creating new file.`
-        );
-        // If file can't be read, treat it as if it doesn't exist
-        await this.app.vault.create(filePath, noteContent);
-        return "created";
-      }
+  children(id: number): RaindropCollection[] {
+    return this.childrenById.get(id) ?? [];
+  }
 
-      // Check if file was modified locally (protect local edits)
-      const frontmatterMatch = currentContent.match(/^---\n([\s\S]*?)\n---/);
+  /**
+   * Visit every collection depth-first in display order.
+   */
+  walk(
+    visit: (collection: RaindropCollection, depth: number, group: string) => void
+  ) {
+    const visitTree = (
+      collection: RaindropCollection,
+      depth: number,
+      group: string
+    ) => {
+      visit(collection, depth, group);
+      for (const child of this.children(collection._id)) {
+        visitTree(child, depth + 1, group);
+      }
+    };
+    for (const group of this.groups) {
+      for (const root of group.roots) visitTree(root, 0, group.title);
+    }
+  }
+}
 
-      // Check if frontmatter needs YAML escaping fix
-      // (detect unescaped colons in title, url, etc.)
-      const needsEscapingFix =
-        frontmatterMatch &&
-        !frontmatterMatch[1].includes('title: "') &&
-        /title:.*:/.test(frontmatterMatch[1]);
+function getHeader(response: RequestUrlResponse, name: string): string {
+  const headers = response.headers || {};
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] : "";
+}
 
-      if (frontmatterMatch) {
-        const frontmatter = frontmatterMatch[1];
-        const lastSyncedMatch = frontmatter.match(/last_synced:\s*(.+)/);
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
-        if (lastSyncedMatch) {
-          const lastSynced = new Date(lastSyncedMatch[1]);
-          const fileModified = new Date(existingFile.stat.mtime);
+// Whether a folder or any folder inside it holds a file
+function hasFiles(folder: TFolder): boolean {
+  return folder.children.some(
+    (child) => !(child instanceof TFolder) || hasFiles(child)
+  );
+}
 
-          // If file was modified after last sync, preserve the local notes
-          if (fileModified > lastSynced) {
-            console.log(`  🔒 File modified locally, preserving notes section`);
+export default class RaindropSyncPlugin extends Plugin {
+  settings: RaindropSyncSettings;
+  syncState: RaindropSyncState;
+  statusBarItem: HTMLElement;
+  lastSyncTime: Date | null = null;
+  isSyncing = false;
+  consecutiveSyncFailures = 0;
+  autoSyncTimeoutId: number | null = null;
+  // Item count reported by the API during the last fetchAllBookmarks()
+  lastReportedBookmarkCount: number | null = null;
+  // Reverse lookup of syncState.noteIndex, rebuilt on load
+  noteIndexByPath: Map<string, number> = new Map();
+  requestSaveState: () => void;
+  // Template loaded at the start of each sync (null = built-in layout)
+  noteTemplate: string | null = null;
+  // Collection tree fetched once per sync (null outside a sync)
+  syncCollectionTree: CollectionTree | null = null;
+  // Set when an image download hits a network error; the rest of the sync
+  // skips images instead of waiting on each one
+  imagesOffline = false;
+  // Run being recorded into the sync history (null outside a sync)
+  syncRun: SyncRun | null = null;
+  // Vault changes of the running sync (null outside a sync)
+  syncJournal: SyncJournal | null = null;
+  // Tag mappings learned by the plan being built, previewed or applied
+  pendingTagMappings: Record<string, string> = {};
+  client: RaindropClient;
 
-            // Extract local notes
-            const localNotesMatch = currentContent.match(
-              /## Notes\n+([\s\S]*?)$/
-            );
-            const localNotes = localNotesMatch ? localNotesMatch[1].trim() : "";
+  async onload() {
+    console.log("Loading Raindrop Sync plugin");
 
-            // Generate new content with local notes preserved
-            const newContentWithLocalNotes = noteContent.replace(
-              /## Notes\n+([\s\S]*?)$/,
-              `## Notes\n\n${localNotes}`
-            );
+    await this.loadSettings();
 
-            await this.app.vault.modify(existingFile, newContentWithLocalNotes);
-            return "updated";
-          }
-        }
-      }
+    this.client = new RaindropClient(() => ({
+      apiToken: this.settings.apiToken,
+      baseUrl: this.settings.apiBaseUrl || DEFAULT_SETTINGS.apiBaseUrl,
+    }));
 
-      // Force update if file needs escaping fix (even if content is similar)
-      if (needsEscapingFix) {
-        console.log(
-          `  🔧 Updating file with proper YAML escaping: ${filePath}`
-        );
-        await this.app.vault.modify(existingFile, noteContent);
-        return "updated";
-      }
+    // Batch index updates from vault events into a single data.json write
+    this.requestSaveState = debounce(() => this.saveSettings(), 2000, true);
 
-      // Only update if content is different
-      if (currentContent !== noteContent) {
-        await this.app.vault.modify(existingFile, noteContent);
-        return "updated";
-      }
-      return "skipped";
-    } else {
-      // Create new file
-      await this.app.vault.create(filePath, noteContent);
-      return "created";
-    }
-  }
+    // Add status bar item
+    this.statusBarItem = this.addStatusBarItem();
+    this.updateStatusBar();
 
-  async findFileByRaindropId(raindropId: number): Promise<TFile | null> {
-    const folder = this.app.vault.getAbstractFileByPath(
-      normalizePath(this.settings.resourceFolder)
-    );
+    // Add ribbon icon
+    this.addRibbonIcon("sync", "Sync Raindrop bookmarks", async () => {
+      await this.syncBookmarks();
+    });
 
-    if (!(folder instanceof TFolder)) {
-      return null;
-    }
+    // Add commands
+    this.addCommand({
+      id: "raindrop-full-sync",
+      name: "Full Sync",
+      callback: async () => {
+        await this.syncBookmarks("manual", "full");
+      },
+    });
 
-    const files = this.getAllFilesInFolder(folder);
+    this.addCommand({
+      id: "raindrop-preview-sync",
+      name: "Preview Sync",
+      callback: async () => {
+        await this.syncBookmarks("manual", undefined, true);
+      },
+    });
 
-    for (const file of files) {
-      if (file.extension !== "md") continue;
+    this.addCommand({
+      id: "raindrop-incremental-sync",
+      name: "Sync Changes Since Last Sync",
+      callback: async () => {
+        await this.syncBookmarks("manual", "incremental");
+      },
+    });
 
-      try {
-        const content = await this.app.vault.read(file);
-        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+    this.addCommand({
+      id: "raindrop-test-connection",
+      name: "Test Connection",
+      callback: async () => {
+        await this.testConnection();
+      },
+    });
 
-        if (!frontmatterMatch) continue;
+    this.addCommand({
+      id: "raindrop-undo-sync",
+      name: "Undo Last Sync",
+      callback: async () => {
+        await this.undoLastSync();
+      },
+    });
 
-        const frontmatter = frontmatterMatch[1];
-        const raindropIdMatch = frontmatter.match(/raindrop_id:\s*(\d+)/);
+    this.addCommand({
+      id: "raindrop-delete-synced-notes",
+      name: "Delete All Synced Notes",
+      callback: async () => {
+        await this.deleteAllSyncedNotes();
+      },
+    });
 
-        if (raindropIdMatch && parseInt(raindropIdMatch[1]) === raindropId) {
-          return file;
-        }
-      } catch (error) {
-        console.warn(`Skipping file ${file.path}: ${error.message}`);
-        continue; // Skip files that can't be read
+    this.addCommand({
+      id: "raindrop-debug-collections",
+      name: "Debug: Show Collections & Sample Bookmarks",
+      callback: async () => {
+        await this.debugCollections();
+      },
+    });
+
+    this.registerView(
+      SYNC_HISTORY_VIEW_TYPE,
+      (leaf) => new SyncHistoryView(leaf, this)
+    );
+
+    this.addCommand({
+      id: "raindrop-export-bookmarks",
+      name: "Export Bookmarks",
+      callback: () => {
+        new ExportModal(this.app, this, this.settings.resourceFolder).open();
+      },
+    });
+
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu: Menu, file: TAbstractFile) => {
+        if (!(file instanceof TFolder)) return;
+        menu.addItem((item) =>
+          item
+            .setTitle("Export Raindrop bookmarks")
+            .setIcon("download")
+            .onClick(() => new ExportModal(this.app, this, file.path).open())
+        );
+      })
+    );
+
+    this.addCommand({
+      id: "raindrop-sync-history",
+      name: "Open Sync History",
+      callback: async () => {
+        await this.openSyncHistory();
+      },
+    });
+
+    // Add settings tab
+    this.addSettingTab(new RaindropSyncSettingTab(this.app, this));
+
+    this.addCommand({
+      id: "raindrop-rebuild-index",
+      name: "Rebuild Bookmark Note Index",
+      callback: async () => {
+        await this.rebuildNoteIndex();
+        new Notice(
+          `✓ Indexed ${this.noteIndexByPath.size} bookmark notes`
+        );
+      },
+    });
+
+    // Start scheduled syncs once the workspace is ready
+    this.app.workspace.onLayoutReady(async () => {
+      // Keep the raindrop_id → path index current as files change. Registered
+      // after layout ready so the initial vault load doesn't fire creates.
+      this.registerEvent(
+        this.app.vault.on("create", (file) => this.onVaultCreate(file))
+      );
+      this.registerEvent(
+        this.app.vault.on("rename", (file, oldPath) =>
+          this.onVaultRename(file, oldPath)
+        )
+      );
+      this.registerEvent(
+        this.app.vault.on("delete", (file) => this.onVaultDelete(file))
+      );
+      this.registerEvent(
+        this.app.metadataCache.on("changed", (file, _data, cache) =>
+          this.onNoteMetadataChanged(file, cache)
+        )
+      );
+
+      await this.ensureNoteIndex();
+
+      if (this.settings.syncOnStartup) {
+        this.runScheduledSync("startup");
+      } else {
+        this.scheduleAutoSync();
       }
-    }
+    });
+  }
 
-    return null;
+  onunload() {
+    console.log("Unloading Raindrop Sync plugin");
+    this.clearAutoSync();
   }
 
-  sanitizeFileName(name: string): string {
-    // Handle undefined or empty names
-    if (!name || name.trim() === "") {
-      return `Untitled-${Date.now()}`;
+  clearAutoSync() {
+    if (this.autoSyncTimeoutId !== null) {
+      window.clearTimeout(this.autoSyncTimeoutId);
+      this.autoSyncTimeoutId = null;
     }
-
-    // Remove or replace invalid characters
-    return name
-      .replace(/[\\/:*?"<>|]/g, "-")
-      .replace(/\s+/g, " ")
-      .trim()
-      .substring(0, 200); // Limit length
   }
 
-  async ensureUniqueFileName(
-    folderPath: string,
-    baseFileName: string,
-    raindropId: number
-  ): Promise<string> {
-    let fileName = baseFileName;
-    let counter = 1;
-    const maxAttempts = 1000; // Prevent infinite loops
+  /**
+   * (Re)schedule the next automatic sync based on the current settings.
+   * Safe to call whenever autoSync or syncInterval change - any pending
+   * run is cancelled first. After consecutive failures the delay doubles
+   * up to MAX_SYNC_BACKOFF_MINUTES.
+   */
+  scheduleAutoSync() {
+    this.clearAutoSync();
 
-    while (counter < maxAttempts) {
-      const filePath = normalizePath(`${folderPath}/${fileName}.md`);
-      const existingFile = this.app.vault.getAbstractFileByPath(filePath);
+    if (!this.settings.autoSync || this.settings.syncInterval <= 0) {
+      return;
+    }
 
-      if (!existingFile) {
-        // File doesn't exist, we can use this name
-        return fileName;
-      }
+    const backoffFactor = Math.pow(2, Math.min(this.consecutiveSyncFailures, 8));
+    const delayMinutes = Math.min(
+      this.settings.syncInterval * backoffFactor,
+      Math.max(MAX_SYNC_BACKOFF_MINUTES, this.settings.syncInterval)
+    );
 
-      // File exists, check if it's the same bookmark
-      if (existingFile instanceof TFile) {
-        try {
-          const content = await this.app.vault.read(existingFile);
-          const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+    if (this.consecutiveSyncFailures > 0) {
+      console.log(
+        `⏳ Auto sync backing off after ${this.consecutiveSyncFailures} failure(s): next run in ${delayMinutes} min`
+      );
+    }
 
-          if (frontmatterMatch) {
-            const frontmatter = frontmatterMatch[1];
-            const raindropIdMatch = frontmatter.match(/raindrop_id:\s*(\d+)/);
+    this.autoSyncTimeoutId = window.setTimeout(() => {
+      this.autoSyncTimeoutId = null;
+      this.runScheduledSync("auto");
+    }, delayMinutes * 60 * 1000);
+  }
 
-            if (raindropIdMatch && parseInt(raindropIdMatch[1]) === raindropId) {
-              // Same bookmark, we can use this name (will update existing file)
-              return fileName;
-            }
-          }
-        } catch (error) {
-          // If we can't read the file, assume it's a different bookmark
-          console.warn(
-            `Could not read existing file ${filePath}, will use different name`
-          );
-        }
-      }
+  async runScheduledSync(trigger: SyncTrigger): Promise<void> {
+    if (this.isSyncing) {
+      console.log(`⏭️ Skipping ${trigger} sync: a sync is already running`);
+      this.scheduleAutoSync();
+      return;
+    }
 
-      // Different bookmark with same name, add counter
-      counter++;
-      fileName = `${baseFileName}-${counter}`;
+    const success = await this.syncBookmarks(trigger);
+    if (success) {
+      this.consecutiveSyncFailures = 0;
+    } else if (this.settings.apiToken) {
+      this.consecutiveSyncFailures++;
     }
 
-    // Fallback: use raindrop ID if we can't find a unique name
-    console.warn(
-      `Could not find unique filename for ${baseFileName}, using raindrop ID`
-    );
-    return `${baseFileName}-${raindropId}`;
+    this.scheduleAutoSync();
   }
 
-  escapeYamlValue(value: string): string {
-    // If value is empty, return empty string
-    if (!value) return '""';
+  async loadSettings() {
+    const { syncState, ...settings } = (await this.loadData()) || {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+    this.syncState = Object.assign({}, DEFAULT_SYNC_STATE, syncState);
+
+    // Runs still marked running were cut short by a reload or crash
+    for (const run of this.syncState.syncHistory) {
+      if (run.status !== "running") continue;
+      run.status = "failed";
+      run.error = "Interrupted";
+    }
 
-    // Check if value needs quoting (contains special YAML characters)
-    const needsQuoting =
-      /[:\[\]{}#&*!|>'"%@`]/.test(value) ||
-      value.startsWith(" ") ||
-      value.endsWith(" ") ||
-      value.includes("\n");
+    this.loadNoteIndexPaths();
+  }
 
-    if (!needsQuoting) {
-      return value;
+  // Reverse lookup for syncState.noteIndex
+  loadNoteIndexPaths() {
+    this.noteIndexByPath = new Map();
+    for (const [id, path] of Object.entries(this.syncState.noteIndex)) {
+      this.noteIndexByPath.set(path, parseInt(id));
     }
+  }
 
-    // Escape double quotes and backslashes, then wrap in quotes
-    const escaped = value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-    return `"${escaped}"`;
+  async saveSettings() {
+    await this.saveData({ ...this.settings, syncState: this.syncState });
   }
 
-  generateNoteContent(
-    bookmark: RaindropBookmark,
-    collectionTitle: string = "Unsorted"
-  ): string {
-    const title = bookmark.title || "Untitled";
+  /**
+   * Decide whether a sync without an explicit mode should reconcile the
+   * whole library (needed to detect deletions) or only fetch changes.
+   */
+  isFullSyncDue(): boolean {
+    if (!this.settings.incrementalSync || this.settings.testMode) return true;
+    if (!this.syncState.lastUpdateCursor || !this.syncState.lastFullSync) {
+      return true;
+    }
+    if (this.settings.fullSyncIntervalHours <= 0) return false;
 
-    // Convert Raindrop tags to Obsidian-friendly format
-    // "AI in UX" -> "ai-in-ux"
-    const sanitizeTags = (tags: string[]) => {
-      return tags
-        .map(
-          (tag) =>
-            tag
-              .toLowerCase()
-              .trim()
-              .replace(/\s+/g, "-")
-              .replace(/[^\w-]/g, "") // Remove special characters except hyphens
-        )
-        .filter((tag) => tag.length > 0); // Remove empty tags
-    };
+    const elapsed = Date.now() - new Date(this.syncState.lastFullSync).getTime();
+    return elapsed >= this.settings.fullSyncIntervalHours * 60 * 60 * 1000;
+  }
 
-    const obsidianTags = sanitizeTags(bookmark.tags || []);
+  /**
+   * Compute the new lastUpdate high-water mark after a sync. Items that
+   * failed keep the cursor below their lastUpdate so they are retried.
+   */
+  computeNextCursor(
+    bookmarks: RaindropBookmark[],
+    failedIds: Set<number>
+  ): string | null {
+    const previous = this.syncState.lastUpdateCursor;
+    let next = previous ? new Date(previous).getTime() : 0;
+
+    for (const bookmark of bookmarks) {
+      if (failedIds.has(bookmark._id)) continue;
+      const updated = new Date(bookmark.lastUpdate).getTime();
+      if (!isNaN(updated) && updated > next) next = updated;
+    }
 
-    // Add default tag for all Raindrop bookmarks
-    if (!obsidianTags.includes("raindrop-bookmarks")) {
-      obsidianTags.unshift("raindrop-bookmarks"); // Add at beginning
+    for (const bookmark of bookmarks) {
+      if (!failedIds.has(bookmark._id)) continue;
+      const updated = new Date(bookmark.lastUpdate).getTime();
+      if (!isNaN(updated) && updated - 1 < next) next = updated - 1;
     }
 
-    const inlineTags = obsidianTags.map((tag) => `#${tag}`);
-    const tagsLine = inlineTags.length > 0 ? inlineTags.join(" ") : "";
+    if (next <= 0) return previous;
+    return new Date(next).toISOString();
+  }
 
-    // Format tags properly for Obsidian properties
-    let tagsYaml: string;
-    if (obsidianTags.length === 0) {
-      tagsYaml = "tags: []"; // Use inline format for empty arrays
-    } else {
-      tagsYaml = `tags:\n${obsidianTags.map((tag) => `  - ${tag}`).join("\n")}`;
-    }
+  isInResourceFolder(path: string): boolean {
+    const root = normalizePath(this.settings.resourceFolder);
+    return path.startsWith(`${root}/`);
+  }
 
-    // Escape YAML values that might contain special characters
-    const escapedTitle = this.escapeYamlValue(title);
-    const escapedUrl = this.escapeYamlValue(bookmark.link || "");
-    const escapedCollection = this.escapeYamlValue(collectionTitle);
-    const escapedDomain = this.escapeYamlValue(bookmark.domain || "Unknown");
-
-    const content = `---
-title: ${escapedTitle}
-url: ${escapedUrl}
-raindrop_id: ${bookmark._id}
-collection: ${escapedCollection}
-${tagsYaml}
-created: ${bookmark.created}
-last_synced: ${new Date().toISOString()}
-type: raindrop-bookmark
-domain: ${escapedDomain}
-added: ${new Date(bookmark.created).toLocaleDateString()}
----
+  /**
+   * Bookmark notes live in resourceFolder, or anywhere when they carry the
+   * sync marker property (e.g. `raindrop: true`).
+   */
+  isBookmarkNoteLocation(path: string, frontmatter?: Record<string, any>) {
+    if (this.isInResourceFolder(path)) return true;
+    const marker = this.settings.syncMarkerProperty.trim();
+    return !!marker && frontmatter?.[marker] === true;
+  }
 
-# ${title}
+  isBookmarkNoteFile(file: TFile): boolean {
+    return this.isBookmarkNoteLocation(
+      file.path,
+      this.app.metadataCache.getFileCache(file)?.frontmatter
+    );
+  }
 
-**URL:** [${bookmark.link || "No URL"}](${bookmark.link || "#"})
-**Collection:** ${collectionTitle}
-${tagsLine ? `**Tags:** ${tagsLine}` : ""}
+  getRaindropIdFromCache(file: TFile): number | null {
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const raindropId = parseInt(frontmatter?.raindrop_id);
+    return isNaN(raindropId) ? null : raindropId;
+  }
 
-## Notes
+  indexNote(raindropId: number, path: string) {
+    const previousPath = this.syncState.noteIndex[raindropId];
+    if (previousPath === path && this.noteIndexByPath.get(path) === raindropId) {
+      return;
+    }
 
-${bookmark.note || ""}
-`;
+    if (previousPath) this.noteIndexByPath.delete(previousPath);
+    this.unindexPath(path);
 
-    return content;
+    this.syncState.noteIndex[raindropId] = path;
+    this.noteIndexByPath.set(path, raindropId);
+    this.requestSaveState();
   }
-}
 
-class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
-  plugin: RaindropSyncPlugin;
-  onChoose: (folder: TFolder) => void;
+  unindexPath(path: string) {
+    const raindropId = this.noteIndexByPath.get(path);
+    if (raindropId === undefined) return;
 
-  constructor(
-    app: App,
-    plugin: RaindropSyncPlugin,
-    onChoose: (folder: TFolder) => void
-  ) {
-    super(app);
-    this.plugin = plugin;
-    this.onChoose = onChoose;
+    this.noteIndexByPath.delete(path);
+    if (this.syncState.noteIndex[raindropId] === path) {
+      delete this.syncState.noteIndex[raindropId];
+    }
+    this.requestSaveState();
   }
 
-  getItems(): TFolder[] {
-    const folders: TFolder[] = [];
-    const abstractFiles = this.app.vault.getAllLoadedFiles();
-    abstractFiles.forEach((file) => {
-      if (file instanceof TFolder) {
-        folders.push(file);
+  /**
+   * Rebuild the raindrop_id → path index from Obsidian's metadata cache.
+   * This never reads file contents, so it is cheap even for large vaults.
+   */
+  async rebuildNoteIndex(): Promise<void> {
+    const noteIndex: Record<string, string> = {};
+    this.noteIndexByPath = new Map();
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (!this.isBookmarkNoteFile(file)) continue;
+
+      const raindropId = this.getRaindropIdFromCache(file);
+      if (raindropId === null) continue;
+
+      noteIndex[raindropId] = file.path;
+      this.noteIndexByPath.set(file.path, raindropId);
+    }
+
+    this.syncState.noteIndex = noteIndex;
+    this.syncState.noteIndexFolder = normalizePath(this.settings.resourceFolder);
+    await this.saveSettings();
+
+    console.log(`🗂️ Rebuilt note index: ${this.noteIndexByPath.size} notes`);
+  }
+
+  /**
+   * Rebuild the index if it was built for another folder or points at
+   * files that no longer exist or no longer carry the indexed raindrop_id.
+   */
+  async ensureNoteIndex(): Promise<void> {
+    let stale =
+      this.syncState.noteIndexFolder !==
+        normalizePath(this.settings.resourceFolder) ||
+      this.noteIndexByPath.size === 0;
+
+    if (!stale) {
+      for (const [path, raindropId] of this.noteIndexByPath) {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (
+          !(file instanceof TFile) ||
+          this.getRaindropIdFromCache(file) !== raindropId
+        ) {
+          stale = true;
+          break;
+        }
       }
-    });
-    return folders;
+    }
+
+    if (stale) {
+      await this.rebuildNoteIndex();
+    }
   }
 
-  getItemText(folder: TFolder): string {
-    return folder.path;
+  onVaultCreate(file: TAbstractFile) {
+    if (!(file instanceof TFile) || file.extension !== "md") return;
+    if (!this.isBookmarkNoteFile(file)) return;
+
+    // Metadata is usually not parsed yet; the "changed" event covers that case
+    const raindropId = this.getRaindropIdFromCache(file);
+    if (raindropId !== null) {
+      this.indexNote(raindropId, file.path);
+    }
   }
 
-  onChooseItem(folder: TFolder): void {
-    this.onChoose(folder);
+  onVaultRename(file: TAbstractFile, oldPath: string) {
+    if (file instanceof TFolder) {
+      const prefix = `${oldPath}/`;
+      for (const [path, raindropId] of [...this.noteIndexByPath]) {
+        if (!path.startsWith(prefix)) continue;
+        const newPath = `${file.path}/${path.slice(prefix.length)}`;
+        const movedFile = this.app.vault.getAbstractFileByPath(newPath);
+        this.unindexPath(path);
+        if (movedFile instanceof TFile && this.isBookmarkNoteFile(movedFile)) {
+          this.indexNote(raindropId, newPath);
+        }
+      }
+      return;
+    }
+
+    if (!(file instanceof TFile)) return;
+
+    const raindropId =
+      this.noteIndexByPath.get(oldPath) ?? this.getRaindropIdFromCache(file);
+    this.unindexPath(oldPath);
+
+    if (raindropId !== null && this.isBookmarkNoteFile(file)) {
+      this.indexNote(raindropId, file.path);
+    }
   }
-}
 
-class RaindropSyncSettingTab extends PluginSettingTab {
-  plugin: RaindropSyncPlugin;
+  onVaultDelete(file: TAbstractFile) {
+    if (file instanceof TFolder) {
+      const prefix = `${file.path}/`;
+      for (const path of [...this.noteIndexByPath.keys()]) {
+        if (path.startsWith(prefix)) this.unindexPath(path);
+      }
+      return;
+    }
 
-  constructor(app: App, plugin: RaindropSyncPlugin) {
-    super(app, plugin);
-    this.plugin = plugin;
+    this.unindexPath(file.path);
   }
 
-  getAllFolders(): string[] {
-    const folders: string[] = [];
-    const abstractFiles = this.app.vault.getAllLoadedFiles();
-    abstractFiles.forEach((file) => {
-      if (file instanceof TFolder) {
-        folders.push(file.path);
+  onNoteMetadataChanged(file: TFile, cache: CachedMetadata) {
+    const raindropId = parseInt(cache.frontmatter?.raindrop_id);
+    if (
+      isNaN(raindropId) ||
+      !this.isBookmarkNoteLocation(file.path, cache.frontmatter)
+    ) {
+      this.unindexPath(file.path);
+    } else {
+      this.indexNote(raindropId, file.path);
+    }
+  }
+
+  /**
+   * All indexed bookmark notes that still exist in the vault.
+   */
+  getIndexedNotes(): Array<{ raindropId: number; file: TFile }> {
+    const notes: Array<{ raindropId: number; file: TFile }> = [];
+
+    for (const [path, raindropId] of [...this.noteIndexByPath]) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        notes.push({ raindropId, file });
+      } else {
+        this.unindexPath(path);
       }
-    });
-    return folders.sort();
+    }
+
+    return notes;
   }
 
-  display(): void {
-    const { containerEl } = this;
-    containerEl.empty();
+  updateStatusBar() {
+    if (this.lastSyncTime) {
+      const timeString = this.lastSyncTime.toLocaleTimeString();
+      this.statusBarItem.setText(`Last sync: ${timeString}`);
+    } else {
+      this.statusBarItem.setText("Raindrop: Not synced");
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    if (!this.settings.apiToken) {
+      new Notice("Please set your Raindrop API token in settings");
+      return false;
+    }
+
+    try {
+      const user = await this.client.getUser();
+      new Notice(`✓ Connected as ${user.fullName || user.email}`);
+      return true;
+    } catch (error) {
+      console.error("Connection test failed:", error);
+      new Notice(`✗ ${describeApiError(error)}`);
+      return false;
+    }
+  }
+
+  async debugCollections(): Promise<void> {
+    if (!this.settings.apiToken) {
+      new Notice("Please set your Raindrop API token in settings");
+      return;
+    }
+
+    new Notice("Fetching debug data...");
+
+    try {
+      // Fetch collections
+      const tree = await this.fetchCollectionTree();
+      console.log("========================================");
+      console.log("📚 COLLECTIONS:");
+      console.log("========================================");
+      tree.walk((col, depth, group) => {
+        console.log(
+          `${"  ".repeat(depth + 1)}- ID: ${col._id}, Title: "${col.title}", Count: ${col.count}, Parent: ${col.parent?.$id ?? "none"}, Group: ${group}`
+        );
+      });
+
+      // Fetch first 5 bookmarks
+      const data = await this.client.getRaindrops(0, { perpage: 5 });
+      console.log("========================================");
+      console.log("🔖 SAMPLE BOOKMARKS (first 5):");
+      console.log("========================================");
+      data.items.forEach((bookmark, index) => {
+        console.log(`\n[${index + 1}] ${bookmark.title}`);
+        console.log(`    Collection ID: ${bookmark.collection?.$id}`);
+        console.log(`    Collection Title: "${bookmark.collection?.title}"`);
+        console.log(`    Has collection?: ${!!bookmark.collection}`);
+        console.log(`    Raw collection:`, bookmark.collection);
+      });
+      console.log("========================================");
+      console.log("⚙️ CURRENT SETTINGS:");
+      console.log("========================================");
+      console.log(
+        `  useCollectionFolders: ${this.settings.useCollectionFolders}`
+      );
+      console.log(`  resourceFolder: ${this.settings.resourceFolder}`);
+      console.log(`  testMode: ${this.settings.testMode}`);
+      console.log("========================================");
+
+      new Notice("✓ Check console for debug output (Cmd+Option+I)");
+    } catch (error) {
+      console.error("Debug failed:", error);
+      new Notice(`✗ Debug failed. ${describeApiError(error)}`);
+    }
+  }
+
+  /**
+   * Revert the vault changes of the last sync that changed anything, newest
+   * first, and put the sync state back as it was before it. Changes sent to
+   * Raindrop stay in Raindrop.
+   */
+  async undoLastSync(): Promise<void> {
+    const journal = await this.loadSyncJournal();
+    if (!journal) {
+      new Notice("No sync to undo");
+      return;
+    }
+    if (this.isSyncing) {
+      new Notice("A Raindrop sync is already running");
+      return;
+    }
+
+    const syncDate = new Date(journal.startedAt).toLocaleString();
+    const confirmed = await new ConfirmModal(
+      this.app,
+      "Undo Last Sync",
+      `Revert the ${journal.entries.length} vault change(s) made by the sync on ${syncDate}? Edits you made to those notes since then are lost. Changes sent to Raindrop are not undone.`,
+      "Undo Sync"
+    ).waitForConfirmation();
+    if (!confirmed) return;
+
+    // Keep scheduled syncs out while files are put back
+    this.isSyncing = true;
+    let failedCount = 0;
+    try {
+      for (const entry of [...journal.entries].reverse()) {
+        try {
+          await this.revertJournalEntry(entry);
+        } catch (error: any) {
+          failedCount++;
+          console.warn(
+            `Could not undo ${entry.op} of ${entry.path}: ${
+              error.message || error
+            }`
+          );
+        }
+      }
+
+      this.syncState = { ...this.syncState, ...journal.state };
+      this.loadNoteIndexPaths();
+      await this.saveSettings();
+      await this.saveSyncJournal(null);
+    } finally {
+      this.isSyncing = false;
+    }
+
+    this.lastSyncTime = null;
+    this.updateStatusBar();
+    new Notice(
+      failedCount > 0
+        ? `⚠️ Undid the last sync, but ${failedCount} change(s) could not be reverted. Check console for details.`
+        : `✓ Undid the sync on ${syncDate} (${journal.entries.length} change(s) reverted)`
+    );
+  }
+
+  async revertJournalEntry(entry: SyncJournalEntry): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(entry.path);
+    const parentPath = (path: string) => path.split("/").slice(0, -1).join("/");
+
+    switch (entry.op) {
+      case "create":
+        if (file instanceof TFile) {
+          await this.app.vault.delete(file);
+        } else if (file instanceof TFolder && !hasFiles(file)) {
+          await this.app.vault.delete(file, true);
+        }
+        return;
+
+      case "modify":
+        if (file instanceof TFile) {
+          await this.app.vault.modify(file, entry.content);
+        } else {
+          await this.ensureFolderExists(parentPath(entry.path));
+          await this.app.vault.create(entry.path, entry.content);
+        }
+        return;
+
+      case "rename":
+        if (!file) throw new Error(`${entry.path} no longer exists`);
+        if (this.app.vault.getAbstractFileByPath(entry.oldPath)) {
+          throw new Error(`${entry.oldPath} already exists`);
+        }
+        await this.ensureFolderExists(parentPath(entry.oldPath));
+        await this.app.fileManager.renameFile(file, entry.oldPath);
+        return;
+
+      case "delete":
+        if (file) return;
+        if (entry.content === null) {
+          await this.ensureFolderExists(entry.path);
+          return;
+        }
+        await this.ensureFolderExists(parentPath(entry.path));
+        if (entry.binary) {
+          await this.app.vault.createBinary(
+            entry.path,
+            base64ToArrayBuffer(entry.content)
+          );
+        } else {
+          await this.app.vault.create(entry.path, entry.content);
+        }
+        return;
+    }
+  }
+
+  // Record a vault change of the running sync
+  journal(entry: SyncJournalEntry) {
+    this.syncJournal?.entries.push(entry);
+  }
+
+  // Files are journaled with their content before they are deleted
+  async journalDeletion(file: TAbstractFile): Promise<void> {
+    if (!this.syncJournal) return;
+
+    if (file instanceof TFolder) {
+      this.journal({ op: "delete", path: file.path, content: null });
+    } else if (file instanceof TFile) {
+      const binary = file.extension !== "md";
+      const content = binary
+        ? arrayBufferToBase64(await this.app.vault.readBinary(file))
+        : await this.app.vault.read(file);
+      this.journal({ op: "delete", path: file.path, content, binary });
+    }
+  }
+
+  // Vault changes of the last sync that changed anything, for Undo Last Sync
+  getSyncJournalPath(): string {
+    return normalizePath(`${this.manifest.dir}/${SYNC_JOURNAL_FILE}`);
+  }
+
+  async loadSyncJournal(): Promise<SyncJournal | null> {
+    const path = this.getSyncJournalPath();
+    if (!(await this.app.vault.adapter.exists(path))) return null;
+
+    try {
+      return JSON.parse(await this.app.vault.adapter.read(path));
+    } catch (error) {
+      console.warn("Could not read the sync journal:", error);
+      return null;
+    }
+  }
+
+  // null removes the journal, leaving nothing to undo
+  async saveSyncJournal(journal: SyncJournal | null): Promise<void> {
+    const path = this.getSyncJournalPath();
+    try {
+      if (journal) {
+        await this.app.vault.adapter.write(path, JSON.stringify(journal));
+      } else if (await this.app.vault.adapter.exists(path)) {
+        await this.app.vault.adapter.remove(path);
+      }
+    } catch (error) {
+      console.error("Failed to save the sync journal:", error);
+    }
+  }
+
+  /**
+   * Delete every indexed bookmark note, whichever sync created it, and the
+   * folders left empty. Asks first, as this can't be undone.
+   */
+  async deleteAllSyncedNotes(): Promise<void> {
+    if (this.isSyncing) {
+      new Notice("A Raindrop sync is already running");
+      return;
+    }
+
+    try {
+      const folder = this.app.vault.getAbstractFileByPath(
+        normalizePath(this.settings.resourceFolder)
+      );
+
+      if (!(folder instanceof TFolder)) {
+        new Notice("Resource folder not found");
+        return;
+      }
+
+      await this.ensureNoteIndex();
+
+      const notes = this.getIndexedNotes();
+      const confirmed = await new ConfirmModal(
+        this.app,
+        "Delete All Synced Notes",
+        `Permanently delete all ${notes.length} bookmark notes synced from Raindrop, along with any edits you made to them? Bookmarks in Raindrop are not affected. This can't be undone.`,
+        "Delete Notes"
+      ).waitForConfirmation();
+      if (!confirmed) return;
+
+      let deletedCount = 0;
+
+      for (const { file } of notes) {
+        try {
+          await this.app.vault.delete(file);
+          this.unindexPath(file.path);
+          deletedCount++;
+        } catch (error: any) {
+          console.warn(`Skipping file ${file.path}: ${error.message || error}`);
+          continue; // Continue with next file
+        }
+      }
+
+      // Clean up empty folders
+      await this.cleanupEmptyFolders(folder);
+
+      // The notes the journal would restore are gone
+      await this.saveSyncJournal(null);
+
+      new Notice(
+        `✓ Deleted ${deletedCount} synced files and cleaned up empty folders`
+      );
+      this.lastSyncTime = null;
+      this.updateStatusBar();
+    } catch (error) {
+      console.error("Deleting synced notes failed:", error);
+      new Notice(
+        "✗ Failed to delete synced notes. Check console for details."
+      );
+    }
+  }
+
+  async cleanupEmptyFolders(folder: TFolder): Promise<void> {
+    // Create a copy of children array to avoid issues when deleting
+    const children = [...folder.children];
+
+    for (const child of children) {
+      if (child instanceof TFolder) {
+        // Recursively clean subfolders first
+        await this.cleanupEmptyFolders(child);
+
+        // Check again if folder is empty (after recursive cleanup)
+        // Need to get fresh reference
+        const currentFolder = this.app.vault.getAbstractFileByPath(child.path);
+        if (
+          currentFolder instanceof TFolder &&
+          currentFolder.children.length === 0
+        ) {
+          try {
+            await this.journalDeletion(currentFolder);
+            await this.app.vault.delete(currentFolder);
+            console.log(`Deleted empty folder: ${currentFolder.path}`);
+          } catch (error) {
+            console.error(
+              `Failed to delete empty folder ${currentFolder.path}:`,
+              error
+            );
+          }
+        }
+      }
+    }
+  }
+
+  async planDeletedBookmarks(
+    syncedRaindropIds: Set<number>,
+    collections: Map<number, RaindropCollection>,
+    trashedIds: Set<number> = new Set()
+  ): Promise<SyncPlanItem[]> {
+    const items: SyncPlanItem[] = [];
+    const scopeIds = this.getScopeCollectionIds(collections);
+    // Every bookmark outside the trash, listed once when first needed
+    let existingIds: Set<number> | null = null;
+
+    // Check every indexed note against the bookmarks still in Raindrop.
+    // Collection changes are planned as moves by planNoteForBookmark.
+    for (const { raindropId, file } of this.getIndexedNotes()) {
+      if (syncedRaindropIds.has(raindropId)) continue;
+
+      // Already handled by an earlier cleanup (mark policy)
+      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      if (frontmatter?.raindrop_deleted === true) continue;
+
+      // With sync filters, a bookmark that wasn't fetched may simply be out
+      // of scope; only notes whose bookmark is really gone are cleaned up
+      const removal = trashedIds.has(raindropId) ? "trashed" : "deleted";
+      if (removal === "deleted" && this.hasSyncFilters()) {
+        if (this.isKnownOutsideFilters(raindropId, scopeIds)) continue;
+        existingIds ??= await this.fetchBookmarkIds(0);
+        if (existingIds.has(raindropId)) continue;
+      }
+
+      const trashed =
+        removal === "trashed" && this.settings.trashHandling !== "deleted";
+      // Trash synced to a folder but not fetched is outside the filters
+      if (
+        trashed &&
+        (this.settings.trashHandling === "ignore" ||
+          this.settings.trashHandling === "folder")
+      ) {
+        continue;
+      }
+
+      let before = "";
+      try {
+        before = await this.app.vault.cachedRead(file);
+      } catch (error: any) {
+        console.warn(`Could not read ${file.path}: ${error.message || error}`);
+      }
+
+      items.push({
+        action: "delete",
+        raindropId,
+        title: file.basename,
+        path: file.path,
+        before,
+        after: "",
+        selected: true,
+        trashed,
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Whether what we know from the last sync already puts a bookmark that a
+   * filtered sync didn't return outside the sync filters.
+   */
+  isKnownOutsideFilters(
+    raindropId: number,
+    scopeIds: Set<number> | null
+  ): boolean {
+    const knownCollectionId = this.syncState.noteCollections[raindropId];
+    if (
+      knownCollectionId !== undefined &&
+      ((scopeIds && !scopeIds.has(knownCollectionId)) ||
+        this.isCollectionIgnored(knownCollectionId))
+    ) {
+      return true;
+    }
+    const knownTags = this.syncState.syncedFields[raindropId]?.tags;
+    return !!knownTags && this.hasExcludedTag(knownTags);
+  }
+
+  async cleanupDeletedBookmarks(items: SyncPlanItem[]): Promise<number> {
+    let deletedCount = 0;
+
+    try {
+      const folder = this.app.vault.getAbstractFileByPath(
+        normalizePath(this.settings.resourceFolder)
+      );
+
+      if (!(folder instanceof TFolder)) {
+        return 0;
+      }
+
+      for (const item of items) {
+        // Folder renames earlier in the sync may have moved the note
+        const file =
+          this.findFileByRaindropId(item.raindropId) ??
+          this.app.vault.getAbstractFileByPath(item.path);
+        if (!(file instanceof TFile)) continue;
+
+        try {
+          // Bookmark was deleted from Raindrop, or trashed and archived
+          const originalPath = file.path;
+          const action = item.trashed
+            ? "archive"
+            : this.settings.deletedBookmarkAction;
+          await this.removeDeletedBookmarkNote(file, action);
+          // Archived and marked notes still embed their images
+          if (action === "delete" || action === "trash") {
+            await this.removeBookmarkImages(item.raindropId, action);
+          }
+          delete this.syncState.noteCollections[item.raindropId];
+          delete this.syncState.syncedFields[item.raindropId];
+          delete this.syncState.syncedHighlights[item.raindropId];
+          deletedCount++;
+          this.recordRunItem(item, "deleted");
+          console.log(
+            `${DELETED_BOOKMARK_ACTION_LABELS[action]} note for bookmark ${
+              item.trashed ? "trashed in" : "removed from"
+            } Raindrop: ${originalPath} (ID: ${item.raindropId})`
+          );
+        } catch (error: any) {
+          this.recordRunItem(item, "failed", error);
+          console.warn(`Skipping file ${file.path}: ${error.message || error}`);
+          continue; // Continue with next file
+        }
+      }
+
+      // Clean up any empty folders left behind
+      await this.cleanupEmptyFolders(folder);
+
+      if (deletedCount > 0) {
+        console.log(
+          `🗑️ Cleaned up ${deletedCount} note(s) for bookmarks deleted from Raindrop`
+        );
+      }
+    } catch (error) {
+      console.error("Failed to cleanup deleted bookmarks:", error);
+    }
+
+    return deletedCount;
+  }
+
+  /**
+   * Apply the configured policy to a note whose bookmark is gone from
+   * Raindrop: archive it, move it to Obsidian's trash, mark it, or delete it.
+   */
+  async removeDeletedBookmarkNote(
+    file: TFile,
+    action: DeletedBookmarkAction = this.settings.deletedBookmarkAction
+  ): Promise<void> {
+    const originalPath = file.path;
+
+    switch (action) {
+      case "delete":
+        await this.journalDeletion(file);
+        await this.app.vault.delete(file);
+        this.unindexPath(originalPath);
+        return;
+
+      case "trash":
+        await this.journalDeletion(file);
+        await this.app.vault.trash(file, false);
+        this.unindexPath(originalPath);
+        return;
+
+      case "mark":
+        await this.markNoteAsDeleted(file);
+        return;
+
+      case "archive": {
+        await this.markNoteAsDeleted(file);
+
+        const archiveFolder = normalizePath(
+          this.settings.archiveFolder || "Raindrop Archive"
+        );
+        await this.ensureFolderExists(archiveFolder);
+
+        let fileName = file.basename;
+        let counter = 1;
+        while (
+          this.app.vault.getAbstractFileByPath(
+            normalizePath(`${archiveFolder}/${fileName}.md`)
+          )
+        ) {
+          counter++;
+          fileName = `${file.basename}-${counter}`;
+        }
+
+        const archivePath = normalizePath(`${archiveFolder}/${fileName}.md`);
+        await this.app.fileManager.renameFile(file, archivePath);
+        this.journal({
+          op: "rename",
+          path: archivePath,
+          oldPath: originalPath,
+        });
+        this.unindexPath(originalPath);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Set top-level frontmatter keys in a note's text, replacing existing
+   * values and appending new keys at the end of the frontmatter.
+   */
+  setFrontmatterValues(content: string, values: Record<string, string>): string {
+    const entries = Object.entries(values)
+      .map(([key, value]) => `${key}: ${value}`)
+      .join("\n");
+    const info = getFrontMatterInfo(content);
+    if (!info.exists) return `---\n${entries}\n---\n\n${content}`;
+
+    return (
+      content.slice(0, info.from) +
+      mergeFrontmatter(
+        content.slice(info.from, info.to),
+        entries,
+        new Set(Object.keys(values))
+      ) +
+      content.slice(info.to)
+    );
+  }
+
+  async markNoteAsDeleted(file: TFile): Promise<void> {
+    const content = await this.app.vault.read(file);
+    if (!getFrontMatterInfo(content).exists) return;
+    if (parseFrontmatter(content).raindrop_deleted === true) return;
+
+    this.journal({ op: "modify", path: file.path, content });
+    await this.app.vault.modify(
+      file,
+      this.setFrontmatterValues(content, { raindrop_deleted: "true" })
+    );
+  }
+
+  async updateSyncStatusNote(
+    totalBookmarks: number,
+    createdCount: number,
+    updatedCount: number,
+    syncedBackCount: number,
+    skippedCount: number = 0,
+    failedCount: number = 0,
+    syncMode: SyncMode = "full",
+    movedCount: number = 0
+  ): Promise<void> {
+    try {
+      const statusNotePath = normalizePath(
+        `${this.settings.resourceFolder}/Raindrop Sync Status.md`
+      );
+
+      const now = new Date();
+      const dateString = now.toLocaleDateString("en-US", {
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      });
+      const timeString = now.toLocaleTimeString("en-US", {
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      });
+
+      const content = `---
+type: raindrop-sync-status
+last_sync: ${now.toISOString()}
+---
+
+# 🔄 Raindrop Sync Status
+
+## Last Sync
+
+**Date:** ${dateString}  
+**Time:** ${timeString}  
+**Mode:** ${syncMode === "incremental" ? "Incremental (changes only)" : "Full"}
+${
+  this.syncState.lastFullSync
+    ? `**Last Full Sync:** ${new Date(
+        this.syncState.lastFullSync
+      ).toLocaleString()}`
+    : ""
+}
+
+## Sync Statistics
+
+- **Total Bookmarks:** ${totalBookmarks}
+- **Created:** ${createdCount}
+- **Updated:** ${updatedCount}
+- **Moved:** ${movedCount}
+- **Skipped:** ${skippedCount}
+${failedCount > 0 ? `- **Failed:** ${failedCount} ⚠️` : ""}
+${
+  this.settings.bidirectionalSync
+    ? `- **Synced Back to Raindrop:** ${syncedBackCount}`
+    : ""
+}
+
+## Settings
+
+- **Folder:** ${this.settings.resourceFolder}
+- **Use Collection Folders:** ${
+        this.settings.useCollectionFolders ? "Yes" : "No"
+      }
+- **Bidirectional Sync:** ${this.settings.bidirectionalSync ? "Yes" : "No"}
+- **Test Mode:** ${
+        this.settings.testMode
+          ? `Yes (${this.settings.testModeLimit} items)`
+          : "No"
+      }
+
+---
+
+*This note is automatically updated after each sync.*
+`;
+
+      const existingFile = this.app.vault.getAbstractFileByPath(statusNotePath);
+      // Only journaled along with other changes, so a sync that changed
+      // nothing else doesn't replace the sync to undo
+      const journaled = !!this.syncJournal?.entries.length;
+
+      if (existingFile instanceof TFile) {
+        if (journaled) {
+          const previous = await this.app.vault.read(existingFile);
+          this.journal({ op: "modify", path: statusNotePath, content: previous });
+        }
+        await this.app.vault.modify(existingFile, content);
+      } else {
+        await this.app.vault.create(statusNotePath, content);
+        if (journaled) this.journal({ op: "create", path: statusNotePath });
+      }
+    } catch (error) {
+      console.error("Failed to update sync status note:", error);
+      // Don't throw - this shouldn't break the sync
+    }
+  }
+
+  async syncBookmarks(
+    trigger: SyncTrigger = "manual",
+    requestedMode?: SyncMode,
+    preview: boolean = false,
+    // Failed items of an earlier run; only these are applied
+    retry?: { run: SyncRun; items: SyncRunItem[] }
+  ): Promise<boolean> {
+    if (!this.settings.apiToken) {
+      if (trigger === "manual") {
+        new Notice("Please set your Raindrop API token in settings");
+      }
+      return false;
+    }
+
+    if (this.isSyncing) {
+      if (trigger === "manual") {
+        new Notice("A Raindrop sync is already running");
+      }
+      return false;
+    }
+
+    this.isSyncing = true;
+
+    // Incremental syncs need a cursor; test mode always fetches from the top
+    let mode: SyncMode =
+      requestedMode ?? (this.isFullSyncDue() ? "full" : "incremental");
+    if (
+      mode === "incremental" &&
+      (!this.syncState.lastUpdateCursor ||
+        this.settings.testMode ||
+        this.hasPathLayoutChanged() ||
+        this.hasSyncScopeChanged())
+    ) {
+      mode = "full";
+    }
+
+    const syncMessage = this.settings.testMode
+      ? `Starting sync (Test Mode: ${this.settings.testModeLimit} items)...`
+      : mode === "incremental"
+      ? "Starting sync (changes only)..."
+      : "Starting full sync...";
+    if (trigger === "manual") {
+      new Notice(syncMessage);
+    } else {
+      console.log(`🔄 ${syncMessage} (${trigger})`);
+    }
+
+    this.syncRun = {
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      trigger,
+      mode,
+      status: "running",
+      retryOf: retry?.run.startedAt,
+      skippedCount: 0,
+      items: [],
+      omittedCount: 0,
+    };
+    this.syncState.syncHistory.push(this.syncRun);
+
+    const { syncHistory, ...state } = this.syncState;
+    this.syncJournal = {
+      startedAt: this.syncRun.startedAt,
+      entries: [],
+      state: JSON.parse(JSON.stringify(state)),
+    };
+
+    try {
+      await this.ensureNoteIndex();
+      this.noteTemplate = await this.loadNoteTemplate();
+
+      // Catch broken path templates before they fail every bookmark
+      for (const pathTemplate of [
+        this.settings.fileNameTemplate,
+        this.settings.folderTemplate,
+      ]) {
+        try {
+          parseTemplate(pathTemplate);
+        } catch (error: any) {
+          throw new Error(
+            `Invalid path template "${pathTemplate}": ${error.message}`
+          );
+        }
+      }
+
+      const plan = await this.buildSyncPlan(mode);
+      if (retry) this.selectRetryItems(plan, retry.items);
+      await this.resolveNoteConflicts(plan, trigger);
+
+      if (preview && plan.items.length > 0) {
+        this.statusBarItem.setText("🔄 Waiting for sync approval...");
+        const approved = await new SyncPlanModal(this.app, plan).waitForDecision();
+        if (!approved) {
+          this.syncRun.status = "cancelled";
+          new Notice("Sync cancelled");
+          this.updateStatusBar();
+          return false;
+        }
+      }
+
+      // Bookmarks that couldn't be planned
+      for (const failed of plan.failedBookmarks) {
+        this.recordRunItem(
+          { raindropId: failed.id, title: failed.title, path: "" },
+          "failed",
+          failed.error
+        );
+      }
+
+      const {
+        createdCount,
+        updatedCount,
+        movedCount,
+        deletedCount,
+        syncedBackCount,
+      } = await this.applySyncPlan(plan);
+      const totalBookmarks = plan.bookmarks.length;
+      const skippedCount =
+        plan.skippedCount +
+        plan.items.filter((item) => item.bookmark && !item.selected).length;
+      const failedCount = plan.failedBookmarks.length;
+      this.syncRun.skippedCount = skippedCount;
+
+      // Log failed bookmarks if any
+      if (failedCount > 0) {
+        console.warn(
+          `⚠️ ${failedCount} bookmarks failed to sync:`,
+          plan.failedBookmarks
+        );
+      }
+
+      this.lastSyncTime = new Date();
+      this.updateStatusBar();
+
+      // Advance the high-water mark (test mode only sees a partial library).
+      // Bookmarks that failed, were deselected in the preview or have a
+      // skipped conflict are retried.
+      if (!this.settings.testMode) {
+        const heldBackIds = new Set(plan.failedBookmarks.map((b) => b.id));
+        plan.items
+          .filter(
+            (item) =>
+              (item.bookmark || item.action === "push") && !item.selected
+          )
+          .forEach((item) => heldBackIds.add(item.raindropId));
+        // Images that couldn't be downloaded are tried again next time
+        plan.bookmarks
+          .filter((bookmark) => this.getMissingImageUrls(bookmark).length > 0)
+          .forEach((bookmark) => heldBackIds.add(bookmark._id));
+
+        this.syncState.lastUpdateCursor = this.computeNextCursor(
+          plan.bookmarks,
+          heldBackIds
+        );
+        // A retry only applies some items, so it doesn't count as a full sync
+        if (mode === "full" && !retry) {
+          this.syncState.lastFullSync = this.lastSyncTime.toISOString();
+          this.syncState.appliedSyncScope = this.getSyncScopeKey();
+        }
+      }
+
+      // Recorded in test mode as well; turning test mode off resets the
+      // cursor, so the notes it didn't see are moved by the next full sync
+      if (
+        mode === "full" &&
+        !retry &&
+        plan.items.every(
+          (item) =>
+            (item.action !== "move" && item.action !== "rename-folder") ||
+            item.selected
+        )
+      ) {
+        this.syncState.appliedPathLayout = this.getPathLayoutKey();
+      }
+      await this.saveSettings();
+
+      // Create/update sync status note
+      await this.updateSyncStatusNote(
+        totalBookmarks,
+        createdCount,
+        updatedCount,
+        syncedBackCount,
+        skippedCount,
+        failedCount,
+        mode,
+        movedCount
+      );
+
+      let message = `✓ ${
+        mode === "incremental" ? "Sync" : "Full sync"
+      } completed! Created: ${createdCount}, Updated: ${updatedCount}`;
+      if (movedCount > 0) message += `, Moved: ${movedCount}`;
+      if (skippedCount > 0) message += `, Skipped: ${skippedCount}`;
+      if (deletedCount > 0) {
+        message += `, ${
+          DELETED_BOOKMARK_ACTION_LABELS[this.settings.deletedBookmarkAction]
+        }: ${deletedCount}`;
+      }
+      if (failedCount > 0) message += `, Failed: ${failedCount}`;
+      if (this.settings.bidirectionalSync) message += `, Synced back: ${syncedBackCount}`;
+
+      new Notice(message);
+      
+      // Show warning if not all bookmarks were processed
+      const processedCount =
+        createdCount + updatedCount + movedCount + skippedCount + failedCount;
+      if (totalBookmarks !== processedCount) {
+        console.warn(
+          `⚠️ Bookmark count mismatch: Total=${totalBookmarks}, Processed=${processedCount}`
+        );
+      }
+      
+      // Show warning if failed bookmarks exist
+      if (failedCount > 0) {
+        new Notice(
+          `⚠️ ${failedCount} bookmarks failed to sync. Check console for details.`,
+          8000
+        );
+      }
+
+      return true;
+    } catch (error) {
+      console.error("Sync failed:", error);
+      this.syncRun.status = "failed";
+      this.syncRun.error =
+        error instanceof Error ? error.message : describeApiError(error);
+      new Notice(
+        error instanceof RaindropApiError || !(error instanceof Error)
+          ? `✗ Sync failed. ${describeApiError(error)}`
+          : `✗ Sync failed: ${error.message}`
+      );
+      this.updateStatusBar(); // Restore status bar
+      return false;
+    } finally {
+      this.isSyncing = false;
+      this.syncCollectionTree = null;
+      this.pendingTagMappings = {};
+      // Syncs that changed nothing leave the previous sync undoable
+      if (this.syncJournal?.entries.length) {
+        await this.saveSyncJournal(this.syncJournal);
+      }
+      this.syncJournal = null;
+      await this.finishSyncRun();
+    }
+  }
+
+  /**
+   * Close the run being recorded, apply the history retention limits and
+   * refresh open Sync History views.
+   */
+  async finishSyncRun() {
+    const run = this.syncRun;
+    if (!run) return;
+    this.syncRun = null;
+
+    run.finishedAt = new Date().toISOString();
+    if (run.status === "running") run.status = "completed";
+
+    const maxAge = this.settings.historyMaxDays * 24 * 60 * 60 * 1000;
+    this.syncState.syncHistory = this.syncState.syncHistory
+      .filter(
+        (entry) =>
+          maxAge <= 0 ||
+          entry === run ||
+          Date.now() - new Date(entry.startedAt).getTime() <= maxAge
+      )
+      .slice(-Math.max(1, this.settings.historyMaxRuns));
+    await this.saveSettings();
+
+    for (const leaf of this.app.workspace.getLeavesOfType(
+      SYNC_HISTORY_VIEW_TYPE
+    )) {
+      if (leaf.view instanceof SyncHistoryView) leaf.view.render();
+    }
+  }
+
+  recordRunItem(
+    item: {
+      action?: SyncAction;
+      raindropId: number;
+      collectionId?: number;
+      title: string;
+      path: string;
+    },
+    result: SyncRunResult,
+    error?: any
+  ) {
+    const run = this.syncRun;
+    if (!run) return;
+    if (result !== "failed" && run.items.length >= MAX_SYNC_RUN_ITEMS) {
+      run.omittedCount++;
+      return;
+    }
+
+    run.items.push({
+      action: item.action,
+      result,
+      raindropId: item.raindropId,
+      collectionId: item.collectionId,
+      title: item.title,
+      path: item.path,
+      error:
+        error === undefined
+          ? undefined
+          : typeof error === "string"
+          ? error
+          : error?.message || String(error),
+    });
+  }
+
+  /**
+   * Run the sync again for the failed items of an earlier run. Removals and
+   * folder renames are only planned by a full sync; everything else is
+   * picked up by an incremental one, as failed bookmarks hold the cursor
+   * back.
+   */
+  async retryFailedItems(run: SyncRun): Promise<boolean> {
+    const items = run.items.filter((item) => item.result === "failed");
+    if (items.length === 0) {
+      new Notice("No failed items to retry");
+      return false;
+    }
+
+    const mode: SyncMode = items.some(
+      (item) => item.action === "delete" || item.action === "rename-folder"
+    )
+      ? "full"
+      : "incremental";
+    return await this.syncBookmarks("manual", mode, false, { run, items });
+  }
+
+  // Deselect every planned item that isn't one of the items being retried
+  selectRetryItems(plan: SyncPlan, retryItems: SyncRunItem[]) {
+    const keys = new Set(retryItems.map((item) => getSyncItemKey(item)));
+    for (const item of plan.items) {
+      item.selected = keys.has(getSyncItemKey(item));
+    }
+  }
+
+  /**
+   * Bookmark notes in a folder as they are exported, in path order. Notes
+   * marked as deleted in Raindrop are left out.
+   */
+  async collectBookmarkExports(folderPath: string): Promise<BookmarkExport[]> {
+    await this.ensureNoteIndex();
+
+    const root = normalizePath(folderPath);
+    const rootDepth = root === "/" ? 0 : root.split("/").length;
+    const notes = this.getIndexedNotes()
+      .filter(({ file }) => root === "/" || file.path.startsWith(`${root}/`))
+      .sort((a, b) => a.file.path.localeCompare(b.file.path));
+
+    const bookmarks: BookmarkExport[] = [];
+    for (const { raindropId, file } of notes) {
+      const content = await this.app.vault.cachedRead(file);
+      const frontmatter = parseFrontmatter(content);
+      const fields = this.readLocalFields(file, content);
+      if (!fields.link || frontmatter.raindrop_deleted === true) continue;
+
+      const collection =
+        frontmatter.collection != null ? String(frontmatter.collection) : "";
+      // Collection folders mirror the collection tree; other layouts only
+      // know the collection's own name
+      const folders = this.usesCollectionFolderLayout()
+        ? file.path.split("/").slice(rootDepth, -1)
+        : collection
+        ? [collection]
+        : [];
+
+      bookmarks.push({
+        title: fields.title || file.basename,
+        url: fields.link,
+        tags: this.toRaindropTags(
+          fields.tags ?? [],
+          this.syncState.syncedFields[raindropId]?.tags ?? []
+        ),
+        collection,
+        folders,
+        created: frontmatter.created != null ? String(frontmatter.created) : "",
+        note: fields.note ?? "",
+      });
+    }
+    return bookmarks;
+  }
+
+  /**
+   * Write the bookmark notes in a folder to a file in the vault, replacing
+   * it if it exists. Returns the number of bookmarks exported.
+   */
+  async exportBookmarks(
+    folderPath: string,
+    format: ExportFormat,
+    outputPath: string
+  ): Promise<number> {
+    const bookmarks = await this.collectBookmarkExports(folderPath);
+    const root = normalizePath(folderPath);
+    const title =
+      root === "/" ? "Bookmarks" : (root.split("/").pop() as string);
+    const content =
+      format === "html"
+        ? toNetscapeBookmarks(bookmarks, title)
+        : format === "csv"
+        ? toBookmarksCsv(bookmarks)
+        : toBookmarksJson(bookmarks);
+
+    const path = normalizePath(outputPath);
+    await this.ensureFolderExists(path.split("/").slice(0, -1).join("/"));
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, content);
+    } else {
+      await this.app.vault.create(path, content);
+    }
+    return bookmarks.length;
+  }
+
+  async openSyncHistory() {
+    const { workspace } = this.app;
+    const leaf =
+      workspace.getLeavesOfType(SYNC_HISTORY_VIEW_TYPE)[0] ??
+      workspace.getRightLeaf(false);
+    if (!leaf) return;
+
+    await leaf.setViewState({ type: SYNC_HISTORY_VIEW_TYPE, active: true });
+    await workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Work out everything a sync would do without writing anything: notes to
+   * create, update, move and delete, and local changes to push to Raindrop.
+   */
+  async buildSyncPlan(mode: SyncMode): Promise<SyncPlan> {
+    const items: SyncPlanItem[] = [];
+
+    const createFromNotes =
+      this.settings.bidirectionalSync && this.settings.createBookmarksFromNotes;
+
+    // Fetch collections if using collection folders, a folder template, or
+    // when new notes need their folder resolved to a collection
+    let collections: Map<number, RaindropCollection> = new Map();
+    if (
+      this.settings.useCollectionFolders ||
+      this.settings.folderTemplate ||
+      createFromNotes ||
+      this.settings.syncCollections.length > 0
+    ) {
+      this.statusBarItem.setText("🔄 Fetching collections...");
+      const tree = await this.fetchCollectionTree();
+      collections = tree.collections;
+
+      // Debug: Show collection hierarchy
+      console.log("🗂️ COLLECTION HIERARCHY:");
+      tree.walk((col, depth) => {
+        console.log(`${"  ".repeat(depth + 1)}${col.title} (ID: ${col._id})`);
+      });
+    }
+
+    // Bidirectional sync: Obsidian → Raindrop (FIRST to preserve local changes)
+    if (this.settings.bidirectionalSync) {
+      this.statusBarItem.setText("🔄 Checking local changes...");
+      items.push(...(await this.planNotesToRaindrop()));
+    }
+    if (createFromNotes) {
+      items.push(...this.planNewBookmarksFromNotes(collections));
+    }
+    const remoteMoves = new Map<number, SyncPlanItem>();
+    if (this.tracksCollectionFolders()) {
+      for (const item of this.planCollectionMovesToRaindrop(collections)) {
+        remoteMoves.set(item.raindropId, item);
+      }
+    }
+
+    const folderRenames = this.planFolderRenames(collections);
+    items.push(...folderRenames);
+
+    // Fetch bookmarks (everything, or only those changed since the cursor)
+    this.statusBarItem.setText("🔄 Fetching bookmarks...");
+    const { bookmarks, fetchedCount } = await this.fetchBookmarksInScope(
+      mode,
+      collections
+    );
+    this.pendingTagMappings = this.learnTagMappings(bookmarks);
+    this.mergeRemoteNoteChanges(items, bookmarks);
+
+    // Plan notes for each bookmark (Raindrop → Obsidian)
+    let skippedCount = 0;
+    const unchangedBookmarks: RaindropBookmark[] = [];
+    let processedCount = 0;
+    const failedBookmarks: SyncPlan["failedBookmarks"] = [];
+    const reservedPaths = new Set<string>();
+
+    for (const bookmark of bookmarks) {
+      processedCount++;
+      this.statusBarItem.setText(
+        `🔄 Checking ${processedCount}/${bookmarks.length}...`
+      );
+
+      // A note dragged into another collection folder wins over the stored
+      // collection, unless the bookmark was moved in Raindrop as well
+      const remoteMove = remoteMoves.get(bookmark._id);
+      if (remoteMove) {
+        if (
+          bookmark.collection?.$id ===
+          this.syncState.noteCollections[bookmark._id]
+        ) {
+          const collectionId = remoteMove.collectionId as number;
+          bookmark.collection = {
+            $id: collectionId,
+            title: collections.get(collectionId)?.title ?? "Unsorted",
+          };
+        } else {
+          remoteMoves.delete(bookmark._id);
+        }
+      }
+
+      try {
+        const item = await this.planNoteForBookmark(
+          bookmark,
+          collections,
+          reservedPaths,
+          folderRenames
+        );
+        if (item) {
+          items.push(item);
+        } else {
+          skippedCount++;
+          unchangedBookmarks.push(bookmark);
+        }
+      } catch (error: any) {
+        failedBookmarks.push({
+          id: bookmark._id,
+          title: bookmark.title || "Untitled",
+          error: error?.message || String(error),
+        });
+        console.error(
+          `Failed to sync bookmark ${bookmark._id} (${bookmark.title}):`,
+          error
+        );
+        // Continue with next bookmark instead of stopping
+      }
+    }
+
+    // A full sync that didn't return the bookmark means it was deleted
+    const fetchedIds = new Set(bookmarks.map((b) => b._id));
+    items.push(
+      ...[...remoteMoves.values()].filter(
+        (item) => mode === "incremental" || fetchedIds.has(item.raindropId)
+      )
+    );
+
+    // Deleted bookmarks are only visible with the complete set of IDs, so
+    // this needs a full sync that actually returned every bookmark
+    const fetchedEverything =
+      !this.settings.testMode &&
+      (this.lastReportedBookmarkCount === null ||
+        fetchedCount >= this.lastReportedBookmarkCount);
+
+    if (mode === "full" && !fetchedEverything) {
+      console.warn(
+        `⚠️ Skipping cleanup: fetched ${fetchedCount} of ${
+          this.lastReportedBookmarkCount ?? "?"
+        } bookmarks${this.settings.testMode ? " (test mode)" : ""}`
+      );
+    } else if (mode === "full") {
+      const syncedRaindropIds = new Set(bookmarks.map((b) => b._id));
+      // Trashed bookmarks are told apart from deleted ones unless both are
+      // handled the same way
+      const trashedIds =
+        this.settings.trashHandling === "deleted"
+          ? new Set<number>()
+          : await this.fetchBookmarkIds(TRASH_COLLECTION_ID);
+      const deleteItems = await this.planDeletedBookmarks(
+        syncedRaindropIds,
+        collections,
+        trashedIds
+      );
+      const indexedCount = this.noteIndexByPath.size;
+      const share =
+        indexedCount > 0 ? (deleteItems.length / indexedCount) * 100 : 0;
+
+      // Safety net: leave notes alone if an unusually large share would go.
+      // The items stay in the plan, deselected, so Preview Sync can still
+      // remove them deliberately.
+      if (
+        deleteItems.length > DELETION_SAFETY_MIN_COUNT &&
+        share > this.settings.deletionSafetyThreshold
+      ) {
+        deleteItems.forEach((item) => (item.selected = false));
+        const message =
+          `⚠️ Cleanup skipped: ${deleteItems.length} of ${indexedCount} notes ` +
+          `(${Math.round(share)}%) would be removed, above the ` +
+          `${this.settings.deletionSafetyThreshold}% safety threshold. ` +
+          `Use Preview Sync to review.`;
+        console.warn(message);
+        new Notice(message, 10000);
+      }
+
+      items.push(...deleteItems);
+    }
+
+    return {
+      mode,
+      bookmarks,
+      collections,
+      items,
+      skippedCount,
+      failedBookmarks,
+      unchangedBookmarks,
+      tagMappings: this.pendingTagMappings,
+    };
+  }
+
+  /**
+   * Carry out the selected items of a sync plan. Pushes run first so local
+   * edits reach Raindrop before notes are rewritten.
+   */
+  async applySyncPlan(plan: SyncPlan): Promise<{
+    createdCount: number;
+    updatedCount: number;
+    movedCount: number;
+    deletedCount: number;
+    syncedBackCount: number;
+  }> {
+    const selected = plan.items.filter((item) => item.selected);
+    this.imagesOffline = false;
+    let createdCount = 0;
+    let updatedCount = 0;
+    let movedCount = 0;
+    let syncedBackCount = 0;
+
+    // Bookmarks whose local edits didn't reach Raindrop
+    const unpushedIds = new Set(
+      plan.items
+        .filter((item) => item.action === "push" && !item.selected)
+        .map((item) => item.raindropId)
+    );
+
+    const pushItems = selected.filter((item) => item.action === "push");
+    for (const item of pushItems) {
+      this.statusBarItem.setText(
+        `🔄 Syncing to Raindrop ${syncedBackCount + 1}/${pushItems.length}...`
+      );
+      try {
+        const updated = await this.pushNoteToRaindrop(item);
+        syncedBackCount++;
+        this.recordRunItem(item, "pushed");
+
+        // The plan fetched bookmarks before this push; bring the copy up to
+        // date so the note isn't rewritten with the old values
+        const fetched = plan.bookmarks.find((b) => b._id === item.raindropId);
+        if (fetched && updated) Object.assign(fetched, updated);
+      } catch (error: any) {
+        unpushedIds.add(item.raindropId);
+        this.recordRunItem(item, "failed", error);
+        console.warn(`Skipping file ${item.path}: ${error.message || error}`);
+      }
+    }
+
+    for (const item of selected.filter((i) => i.action === "create-remote")) {
+      this.statusBarItem.setText(`🔄 Creating "${item.title}" in Raindrop...`);
+      try {
+        await this.createRaindropFromNote(item);
+        syncedBackCount++;
+        this.recordRunItem(item, "pushed");
+      } catch (error: any) {
+        this.recordRunItem(item, "failed", error);
+        console.warn(
+          `Failed to create bookmark from ${item.path}: ${error.message || error}`
+        );
+      }
+    }
+
+    for (const item of selected.filter((i) => i.action === "move-remote")) {
+      this.statusBarItem.setText(`🔄 Moving "${item.title}" in Raindrop...`);
+      try {
+        await this.moveRaindropToCollection(
+          item.raindropId,
+          item.collectionId as number
+        );
+        this.syncState.noteCollections[item.raindropId] =
+          item.collectionId as number;
+        this.requestSaveState();
+        syncedBackCount++;
+        this.recordRunItem(item, "pushed");
+      } catch (error: any) {
+        this.recordRunItem(item, "failed", error);
+        console.warn(
+          `Failed to move bookmark ${item.raindropId}: ${error.message || error}`
+        );
+      }
+    }
+
+    // The collection of a note with a pending move is only recorded once
+    // Raindrop has accepted the move
+    const remoteMoveIds = new Set(
+      plan.items
+        .filter((item) => item.action === "move-remote")
+        .map((item) => item.raindropId)
+    );
+
+    // Nothing planned is persisted before the plan is applied
+    if (Object.keys(plan.tagMappings).length > 0) {
+      Object.assign(this.settings.tagMappings, plan.tagMappings);
+      this.requestSaveState();
+    }
+    for (const bookmark of plan.unchangedBookmarks) {
+      this.recordSyncedFields(bookmark);
+      if (!remoteMoveIds.has(bookmark._id)) {
+        this.recordNoteCollection(bookmark);
+      }
+    }
+
+    // Ensure base resource folder exists
+    await this.ensureFolderExists(this.settings.resourceFolder);
+
+    // Renamed collections: move their folders before the notes inside
+    for (const item of selected.filter((i) => i.action === "rename-folder")) {
+      this.statusBarItem.setText(`🔄 Renaming folder "${item.title}"...`);
+      try {
+        await this.renameCollectionFolder(item);
+        this.recordRunItem(item, "moved");
+      } catch (error: any) {
+        this.recordRunItem(item, "failed", error);
+        console.warn(
+          `Failed to rename ${item.oldPath} to ${item.path}: ${
+            error.message || error
+          }`
+        );
+      }
+    }
+
+    // Rewriting these notes with the remote values would lose the edits;
+    // like deselected items, they are left for the next sync
+    for (const item of selected) {
+      if (item.bookmark && unpushedIds.has(item.raindropId)) {
+        item.selected = false;
+      }
+    }
+
+    const noteItems = selected.filter(
+      (item) =>
+        item.selected &&
+        (item.action === "create" ||
+          item.action === "update" ||
+          item.action === "download-images" ||
+          item.action === "move")
+    );
+    let processedCount = 0;
+    for (const item of noteItems) {
+      processedCount++;
+      // Update status bar with progress
+      this.statusBarItem.setText(
+        `🔄 Syncing ${processedCount}/${noteItems.length}...`
+      );
+
+      try {
+        await this.downloadBookmarkImages(item.bookmark as RaindropBookmark);
+        const result = await this.createOrUpdateNote(item, plan.collections);
+        this.recordSyncedFields(item.bookmark as RaindropBookmark);
+        if (!remoteMoveIds.has(item.raindropId)) {
+          this.recordNoteCollection(item.bookmark as RaindropBookmark);
+        }
+        if (result === "created") createdCount++;
+        else if (result === "updated") updatedCount++;
+        else if (result === "moved") movedCount++;
+        else plan.skippedCount++;
+        if (result !== "skipped") this.recordRunItem(item, result);
+      } catch (error: any) {
+        plan.failedBookmarks.push({
+          id: item.raindropId,
+          title: item.title,
+          error: error?.message || String(error),
+        });
+        this.recordRunItem(item, "failed", error);
+        console.error(
+          `Failed to sync bookmark ${item.raindropId} (${item.title}):`,
+          error
+        );
+      }
+    }
+
+    // Clean up bookmarks that were deleted from Raindrop
+    this.statusBarItem.setText("🔄 Cleaning up deleted bookmarks...");
+    const deletedCount = await this.cleanupDeletedBookmarks(
+      selected.filter((item) => item.action === "delete")
+    );
+    this.recordCollectionFolders(plan.collections);
+
+    // Conflicts nobody resolved (scheduled syncs) are left in the note
+    for (const item of plan.items.filter((i) => i.conflict)) {
+      try {
+        await this.writeConflictMarkers(item);
+      } catch (error: any) {
+        console.warn(
+          `Failed to write conflict for ${item.path}: ${error.message || error}`
+        );
+      }
+    }
+
+    return {
+      createdCount,
+      updatedCount,
+      movedCount,
+      deletedCount,
+      syncedBackCount,
+    };
+  }
+
+  /**
+   * Load the complete collection hierarchy: root collections, nested
+   * collections and the sidebar groups that order the roots. Within a sync
+   * the first result is reused.
+   */
+  async fetchCollectionTree(): Promise<CollectionTree> {
+    if (this.syncCollectionTree) return this.syncCollectionTree;
+
+    try {
+      const [roots, children, user] = await Promise.all([
+        this.client.getCollections(),
+        this.client.getChildCollections(),
+        this.client.getUser(),
+      ]);
+      await this.resolveCollectionOwners([...roots, ...children], user);
+      const tree = new CollectionTree(roots, children, user.groups);
+
+      console.log(
+        `📚 Loaded ${tree.size} collections (${roots.length} root, ${children.length} nested)`
+      );
+
+      if (this.isSyncing) this.syncCollectionTree = tree;
+      return tree;
+    } catch (error) {
+      // Without collections every note would look like it belongs in
+      // Unsorted, so the sync must not carry on
+      console.error("Failed to fetch collections:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Name the owners of collections shared with us. The collaborator list is
+   * asked for once per owner; if it can't be read the owner's ID is used.
+   */
+  async resolveCollectionOwners(
+    collections: RaindropCollection[],
+    user: RaindropUser
+  ) {
+    const ownerNames = new Map<number, string>();
+
+    for (const collection of collections) {
+      const ownerId = collection.user?.$id;
+      if (ownerId === undefined || ownerId === user._id) continue;
+
+      if (!ownerNames.has(ownerId)) {
+        let name = `User ${ownerId}`;
+        try {
+          const owner = (
+            await this.client.getCollaborators(collection._id)
+          ).find(
+            (collaborator) =>
+              collaborator._id === ownerId || collaborator.role === "owner"
+          );
+          name = owner?.fullName || owner?.email || name;
+        } catch (error) {
+          console.warn(
+            `Could not look up the owner of "${collection.title}":`,
+            error
+          );
+        }
+        ownerNames.set(ownerId, name);
+      }
+      collection.owner = ownerNames.get(ownerId);
+    }
+  }
+
+  hasSyncFilters(): boolean {
+    return (
+      this.settings.syncCollections.length > 0 ||
+      this.settings.excludedTags.length > 0 ||
+      this.settings.searchQuery.trim().length > 0 ||
+      this.settings.unsortedHandling === "ignore"
+    );
+  }
+
+  getSyncScopeKey(settings: RaindropSyncSettings = this.settings): string {
+    return JSON.stringify([
+      settings.syncCollections,
+      settings.excludedTags,
+      settings.searchQuery.trim(),
+      settings.unsortedHandling,
+      settings.trashHandling,
+      settings.downloadImages,
+    ]);
+  }
+
+  // Bookmarks from newly included collections need a full sync
+  hasSyncScopeChanged(): boolean {
+    const applied =
+      this.syncState.appliedSyncScope ??
+      this.getSyncScopeKey(DEFAULT_SETTINGS);
+    return applied !== this.getSyncScopeKey();
+  }
+
+  // Bookmarks in these collections are never synced
+  isCollectionIgnored(collectionId: number): boolean {
+    return (
+      collectionId === UNSORTED_COLLECTION_ID &&
+      this.settings.unsortedHandling === "ignore"
+    );
+  }
+
+  /**
+   * IDs of all collections in scope, including the children of selections
+   * that ask for them, or null when every collection is synced.
+   */
+  getScopeCollectionIds(
+    collections: Map<number, RaindropCollection>
+  ): Set<number> | null {
+    if (this.settings.syncCollections.length === 0) return null;
+
+    const ids = new Set<number>();
+    for (const selection of this.settings.syncCollections) {
+      ids.add(selection.id);
+      if (!selection.includeChildren) continue;
+
+      for (const collection of collections.values()) {
+        if (
+          this.isDescendantCollection(collection._id, selection.id, collections)
+        ) {
+          ids.add(collection._id);
+        }
+      }
+    }
+    return ids;
+  }
+
+  hasExcludedTag(tags: string[]): boolean {
+    const excluded = this.settings.excludedTags.map((tag) => tag.toLowerCase());
+    return tags.some((tag) => excluded.includes(tag.toLowerCase()));
+  }
+
+  /**
+   * Fetch the bookmarks the sync filters select. Each selected collection
+   * is requested on its own (with nested collections when its children are
+   * included); excluded tags are filtered out afterwards. fetchedCount is
+   * what the API returned, to compare with the count it reported.
+   */
+  async fetchBookmarksInScope(
+    mode: SyncMode,
+    collections: Map<number, RaindropCollection>
+  ): Promise<{ bookmarks: RaindropBookmark[]; fetchedCount: number }> {
+    const scopeIds = this.getScopeCollectionIds(collections);
+
+    // Selections already covered by a selected ancestor with children
+    const roots = this.settings.syncCollections.filter(
+      (selection) =>
+        !this.settings.syncCollections.some(
+          (other) =>
+            other.includeChildren &&
+            other.id !== selection.id &&
+            this.isDescendantCollection(selection.id, other.id, collections)
+        )
+    );
+    if (roots.length === 0) roots.push({ id: 0, includeChildren: false });
+    // The "all bookmarks" listing leaves out the trash
+    if (this.settings.trashHandling === "folder") {
+      roots.push({ id: TRASH_COLLECTION_ID, includeChildren: false });
+    }
+
+    this.lastReportedBookmarkCount = null;
+    const fetched = new Map<number, RaindropBookmark>();
+    for (const root of roots) {
+      const bookmarks =
+        mode === "incremental"
+          ? await this.fetchBookmarksUpdatedSince(
+              this.syncState.lastUpdateCursor as string,
+              root.id,
+              root.includeChildren
+            )
+          : await this.fetchAllBookmarks(root.id, root.includeChildren);
+      bookmarks.forEach((bookmark) => fetched.set(bookmark._id, bookmark));
+    }
+
+    const bookmarks = [...fetched.values()].filter(
+      (bookmark) =>
+        (!scopeIds ||
+          scopeIds.has(bookmark.collection?.$id) ||
+          bookmark.collection?.$id === TRASH_COLLECTION_ID) &&
+        !this.isCollectionIgnored(bookmark.collection?.$id) &&
+        !this.hasExcludedTag(bookmark.tags || [])
+    );
+    if (bookmarks.length < fetched.size) {
+      console.log(
+        `🔎 ${fetched.size - bookmarks.length} bookmark(s) outside the sync filters`
+      );
+    }
+
+    return {
+      bookmarks: this.settings.testMode
+        ? bookmarks.slice(0, this.settings.testModeLimit)
+        : bookmarks,
+      fetchedCount: fetched.size,
+    };
+  }
+
+  isDescendantCollection(
+    collectionId: number,
+    ancestorId: number,
+    collections: Map<number, RaindropCollection>
+  ): boolean {
+    for (
+      let parentId = collections.get(collectionId)?.parent?.$id;
+      parentId !== undefined;
+      parentId = collections.get(parentId)?.parent?.$id
+    ) {
+      if (parentId === ancestorId) return true;
+    }
+    return false;
+  }
+
+  /**
+   * IDs of every bookmark in a collection, regardless of sync filters.
+   * Collection 0 lists all bookmarks outside the trash.
+   */
+  async fetchBookmarkIds(collectionId: number): Promise<Set<number>> {
+    const ids = new Set<number>();
+    const perPage = 50;
+
+    for (let page = 0; ; page++) {
+      const data = await this.client.getRaindrops(collectionId, {
+        perpage: perPage,
+        page,
+      });
+      data.items.forEach((bookmark) => ids.add(bookmark._id));
+      if (data.items.length < perPage) return ids;
+    }
+  }
+
+  async fetchAllBookmarks(
+    collectionId = 0,
+    nested = false
+  ): Promise<RaindropBookmark[]> {
+    const allBookmarks: RaindropBookmark[] = [];
+    let page = 0;
+    const perPage = 50;
+    let hasMore = true;
+    let totalCountFromAPI: number | null = null;
+
+    console.log("📥 Starting to fetch bookmarks from Raindrop API...");
+
+    while (hasMore) {
+      try {
+        const data = await this.client.getRaindrops(collectionId, {
+          perpage: perPage,
+          page,
+          search: this.settings.searchQuery.trim(),
+          nested: nested || undefined,
+        });
+
+        // Store total count from API (first page), summed over collections
+        if (totalCountFromAPI === null && data.count !== undefined) {
+          totalCountFromAPI = data.count;
+          this.lastReportedBookmarkCount =
+            (this.lastReportedBookmarkCount ?? 0) + data.count;
+          console.log(`📊 Total bookmarks in Raindrop: ${totalCountFromAPI}`);
+        }
+
+        console.log(
+          `📄 Page ${page + 1}: Fetched ${data.items.length} bookmarks (Total so far: ${allBookmarks.length + data.items.length})`
+        );
+
+        allBookmarks.push(...data.items);
+
+        // Check test mode limit
+        if (
+          this.settings.testMode &&
+          allBookmarks.length >= this.settings.testModeLimit
+        ) {
+          console.log(
+            `🧪 Test mode: Limiting to ${this.settings.testModeLimit} bookmarks`
+          );
+          return allBookmarks.slice(0, this.settings.testModeLimit);
+        }
+
+        // Check if there are more pages
+        // Continue if we got a full page, or if we haven't reached the total count yet
+        hasMore = data.items.length === perPage;
+        
+        // Also check if we've fetched all bookmarks according to API count
+        if (totalCountFromAPI !== null && allBookmarks.length >= totalCountFromAPI) {
+          hasMore = false;
+          console.log(
+            `✓ Fetched all ${allBookmarks.length} bookmarks (API reported ${totalCountFromAPI})`
+          );
+        }
+
+        page++;
+      } catch (error) {
+        console.error(`❌ Error fetching page ${page}:`, error);
+        throw error; // Re-throw to stop sync if API fails
+      }
+    }
+
+    console.log(
+      `✅ Finished fetching: ${allBookmarks.length} bookmarks total${
+        totalCountFromAPI !== null
+          ? ` (API reported ${totalCountFromAPI})`
+          : ""
+      }`
+    );
+
+    // Warn if count mismatch
+    if (
+      totalCountFromAPI !== null &&
+      allBookmarks.length !== totalCountFromAPI
+    ) {
+      console.warn(
+        `⚠️ Bookmark count mismatch: Fetched ${allBookmarks.length}, but API reported ${totalCountFromAPI}`
+      );
+    }
+
+    return allBookmarks;
+  }
+
+  /**
+   * Fetch only bookmarks changed after the given lastUpdate cursor.
+   * Pages are requested newest-first by lastUpdate, so paging stops as
+   * soon as an item at or before the cursor is reached.
+   */
+  async fetchBookmarksUpdatedSince(
+    cursor: string,
+    collectionId = 0,
+    nested = false
+  ): Promise<RaindropBookmark[]> {
+    const changedBookmarks: RaindropBookmark[] = [];
+    const cursorTime = new Date(cursor).getTime();
+    let page = 0;
+    const perPage = 50;
+    let hasMore = true;
+
+    console.log(`📥 Fetching bookmarks updated since ${cursor}...`);
+
+    while (hasMore) {
+      try {
+        const data = await this.client.getRaindrops(collectionId, {
+          sort: "-lastUpdate",
+          perpage: perPage,
+          page,
+          search: this.settings.searchQuery.trim(),
+          nested: nested || undefined,
+        });
+
+        for (const bookmark of data.items) {
+          if (new Date(bookmark.lastUpdate).getTime() <= cursorTime) {
+            hasMore = false;
+            break;
+          }
+          changedBookmarks.push(bookmark);
+        }
+
+        if (data.items.length < perPage) {
+          hasMore = false;
+        }
+
+        page++;
+      } catch (error) {
+        console.error(`❌ Error fetching page ${page}:`, error);
+        throw error;
+      }
+    }
+
+    console.log(`✅ ${changedBookmarks.length} bookmark(s) changed since last sync`);
+
+    return changedBookmarks;
+  }
+
+  isModifiedSinceSync(file: TFile, lastSynced: Date): boolean {
+    return file.stat.mtime > lastSynced.getTime() + LOCAL_EDIT_TOLERANCE_MS;
+  }
+
+  async planNotesToRaindrop(): Promise<SyncPlanItem[]> {
+    const items: SyncPlanItem[] = [];
+
+    try {
+      // Find all raindrop bookmark notes
+      const notes = this.getIndexedNotes();
+
+      for (const { raindropId, file } of notes) {
+        try {
+          const frontmatter =
+            this.app.metadataCache.getFileCache(file)?.frontmatter;
+          // The bookmark is gone from Raindrop; pushing would only fail
+          if (frontmatter?.raindrop_deleted === true) continue;
+
+          // Only sync if file was modified after last sync (checked against
+          // the metadata cache so unchanged notes are never read)
+          const lastSyncedValue = frontmatter?.last_synced;
+          const lastSynced = lastSyncedValue
+            ? new Date(lastSyncedValue)
+            : new Date(0);
+
+          if (!this.isModifiedSinceSync(file, lastSynced)) continue;
+
+          const content = await this.app.vault.read(file);
+          if (!getFrontMatterInfo(content).exists) continue;
+
+          // Annotations changed locally under each highlight. Highlights
+          // without a recorded annotation (e.g. notes synced before
+          // highlights were tracked) count as unchanged until a sync
+          // records one
+          const syncedHighlights =
+            this.syncState.syncedHighlights[raindropId] ?? {};
+          const highlightUpdates = this.settings.syncHighlights
+            ? [...this.parseHighlightAnnotations(content)]
+                .filter(
+                  ([_id, note]) =>
+                    _id in syncedHighlights && syncedHighlights[_id] !== note
+                )
+                .map(([_id, note]) => ({ _id, note }))
+            : [];
+
+          const update: RaindropNoteUpdate = {
+            ...this.diffLocalFields(
+              this.readLocalFields(file, content),
+              this.syncState.syncedFields[raindropId]
+            ),
+            highlights: highlightUpdates,
+          };
+
+          // Never send an unresolved conflict back to Raindrop
+          if (update.note?.includes(CONFLICT_MARKER_START)) {
+            console.warn(`⚠️ Unresolved conflict markers in ${file.path}`);
+            delete update.note;
+          }
+
+          // Skip if there is nothing to push
+          if (
+            Object.keys(update).length === 1 &&
+            highlightUpdates.length === 0
+          ) {
+            continue;
+          }
+
+          items.push({
+            action: "push",
+            raindropId,
+            title: file.basename,
+            path: file.path,
+            before: "",
+            after: this.describeNoteUpdate(update),
+            selected: true,
+            update,
+          });
+        } catch (error: any) {
+          console.warn(`Skipping file ${file.path}: ${error.message || error}`);
+          continue; // Continue with next file instead of stopping
+        }
+      }
+    } catch (error) {
+      console.error("Failed to sync notes to Raindrop:", error);
+    }
+
+    return items;
+  }
+
+  describeNoteUpdate(update: RaindropNoteUpdate): string {
+    const lines: string[] = [];
+    if (update.title !== undefined) lines.push(`Title: ${update.title}`);
+    if (update.link !== undefined) lines.push(`Link: ${update.link}`);
+    if (update.excerpt !== undefined) lines.push(`Excerpt: ${update.excerpt}`);
+    if (update.tags !== undefined) {
+      lines.push(`Tags: ${update.tags.join(", ") || "(none)"}`);
+    }
+    if (update.note !== undefined) lines.push("Note:", update.note, "");
+    for (const highlight of update.highlights) {
+      lines.push(`Highlight ${highlight._id} note: ${highlight.note}`);
+    }
+    return lines.join("\n").trim();
+  }
+
+  /**
+   * Editable fields as they currently read in the note. Fields the note
+   * doesn't carry (e.g. a template without an excerpt) are left out.
+   */
+  readLocalFields(
+    file: TFile,
+    content: string
+  ): Partial<RaindropEditableFields> {
+    const frontmatter =
+      this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+    const fields: Partial<RaindropEditableFields> = {};
+
+    if (frontmatter.title != null) fields.title = String(frontmatter.title);
+    if (frontmatter.url != null) fields.link = String(frontmatter.url);
+    if (frontmatter.excerpt != null) {
+      fields.excerpt = String(frontmatter.excerpt);
+    }
+    if (frontmatter.tags != null) {
+      const rawTags: unknown[] = Array.isArray(frontmatter.tags)
+        ? frontmatter.tags
+        : String(frontmatter.tags).split(",");
+      fields.tags = rawTags
+        .map((tag) => String(tag).replace(/^#/, "").trim())
+        .filter((tag) => tag.length > 0 && tag !== "raindrop-bookmarks");
+    }
+
+    const note = this.getNoteText(content);
+    if (note !== null) fields.note = note;
+
+    return fields;
+  }
+
+  /**
+   * Fields that differ from what was last synced. Without a baseline
+   * (notes synced by older versions) only a non-empty Notes section is
+   * pushed.
+   */
+  diffLocalFields(
+    local: Partial<RaindropEditableFields>,
+    synced: RaindropEditableFields | undefined
+  ): Partial<RaindropEditableFields> {
+    const changed: Partial<RaindropEditableFields> = {};
+
+    if (!synced) {
+      if (local.note) changed.note = local.note;
+      return changed;
+    }
+
+    if (
+      local.title !== undefined &&
+      local.title !== (synced.title || "Untitled")
+    ) {
+      changed.title = local.title;
+    }
+    if (local.link !== undefined && local.link !== synced.link) {
+      changed.link = local.link;
+    }
+    if (local.excerpt !== undefined && local.excerpt !== synced.excerpt) {
+      changed.excerpt = local.excerpt;
+    }
+    if (local.note !== undefined && local.note !== synced.note.trim()) {
+      changed.note = local.note;
+    }
+
+    // Tags are compared as the Raindrop tags they stand for, so merged or
+    // re-mapped tags don't count as edits
+    if (local.tags !== undefined) {
+      const localRaindropTags = this.toRaindropTags(local.tags, synced.tags);
+      const syncedTags = new Set(
+        synced.tags.filter((tag) => tag.toLowerCase() !== "raindrop-bookmarks")
+      );
+
+      if (
+        localRaindropTags.length !== syncedTags.size ||
+        localRaindropTags.some((tag) => !syncedTags.has(tag))
+      ) {
+        changed.tags = localRaindropTags;
+      }
+    }
+
+    return changed;
+  }
+
+  recordSyncedFields(bookmark: RaindropBookmark) {
+    this.syncState.syncedFields[bookmark._id] = {
+      title: bookmark.title || "",
+      excerpt: bookmark.excerpt || "",
+      note: bookmark.note || "",
+      tags: [...(bookmark.tags || [])],
+      link: bookmark.link || "",
+    };
+    this.syncState.syncedHighlights[bookmark._id] = Object.fromEntries(
+      (bookmark.highlights || []).map((highlight) => [
+        highlight._id,
+        (highlight.note || "").trim(),
+      ])
+    );
+    this.requestSaveState();
+  }
+
+  /**
+   * Notes edited in Obsidian and in Raindrop since the last sync are merged
+   * against the last synced text. Overlapping edits are flagged as a
+   * conflict on the push item.
+   */
+  mergeRemoteNoteChanges(items: SyncPlanItem[], bookmarks: RaindropBookmark[]) {
+    const bookmarksById = new Map(bookmarks.map((b) => [b._id, b]));
+
+    for (const item of items) {
+      if (item.action !== "push" || item.update?.note === undefined) continue;
+
+      const bookmark = bookmarksById.get(item.raindropId);
+      const base = this.syncState.syncedFields[item.raindropId]?.note;
+      if (!bookmark || base === undefined) continue;
+
+      const local = item.update.note;
+      const remote = (bookmark.note || "").trim();
+      if (remote === base.trim()) continue; // Only changed locally
+
+      if (remote === local) {
+        delete item.update.note;
+      } else {
+        const { merged, conflicts } = mergeThreeWay(base.trim(), local, remote);
+        if (conflicts > 0) {
+          item.conflict = { local, remote, merged };
+        } else {
+          console.log(`  🔀 Merged Notes edits for ${item.path}`);
+          item.update.note = merged;
+        }
+      }
+      item.after = this.describeNoteUpdate(item.update);
+    }
+  }
+
+  /**
+   * Ask how to resolve each Notes conflict when someone started the sync.
+   * Scheduled syncs leave conflict markers in the note instead.
+   */
+  async resolveNoteConflicts(plan: SyncPlan, trigger: SyncTrigger) {
+    for (const item of plan.items.filter((i) => i.conflict)) {
+      const conflict = item.conflict as NoteConflict;
+      const update = item.update as RaindropNoteUpdate;
+
+      if (trigger !== "manual") {
+        item.selected = false;
+        continue;
+      }
+
+      this.statusBarItem.setText("🔄 Waiting for conflict resolution...");
+      const resolution = await new NoteConflictModal(
+        this.app,
+        item.title,
+        conflict
+      ).waitForResolution();
+      delete item.conflict;
+
+      if (resolution === null) {
+        // Skipped: the note stays modified and is offered again next sync
+        item.selected = false;
+        continue;
+      }
+
+      update.note = resolution;
+      item.after = this.describeNoteUpdate(update);
+    }
+  }
+
+  async writeConflictMarkers(item: SyncPlanItem): Promise<void> {
+    const conflict = item.conflict as NoteConflict;
+    const file = this.app.vault.getAbstractFileByPath(item.path);
+    if (!(file instanceof TFile)) return;
+
+    // last_synced is left alone so the note still counts as edited locally
+    const content = await this.app.vault.read(file);
+    this.journal({ op: "modify", path: file.path, content });
+    await this.app.vault.modify(
+      file,
+      this.setNoteText(content, conflict.merged)
+    );
+
+    // Raindrop's side is now part of the note, so it becomes the new base
+    const synced = this.syncState.syncedFields[item.raindropId];
+    if (synced) {
+      synced.note = conflict.remote;
+      this.requestSaveState();
+    }
+
+    new Notice(
+      `⚠️ Notes for "${item.title}" changed in Obsidian and Raindrop. Resolve the conflict markers in ${item.path}.`,
+      10000
+    );
+  }
+
+  /**
+   * Send a note's local changes to Raindrop and return the bookmark as
+   * Raindrop now has it.
+   */
+  async pushNoteToRaindrop(
+    item: SyncPlanItem
+  ): Promise<RaindropBookmark | null> {
+    const update = item.update as RaindropNoteUpdate;
+
+    // Update Raindrop via API
+    const updated = await this.updateRaindrop(item.raindropId, update);
+    if (updated) this.recordSyncedFields(updated);
+
+    // Update last_synced in frontmatter
+    const file = this.app.vault.getAbstractFileByPath(item.path);
+    if (file instanceof TFile) {
+      const content = await this.app.vault.read(file);
+      this.journal({ op: "modify", path: file.path, content });
+      await this.app.vault.modify(
+        file,
+        this.setFrontmatterValues(content, {
+          last_synced: new Date().toISOString(),
+        })
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Reverse of getCollectionFolder: folder path (relative to resourceFolder)
+   * → collection ID, including nested collections and the Unsorted folder.
+   */
+  buildCollectionFolderMap(
+    collections: Map<number, RaindropCollection>
+  ): Map<string, number> {
+    const folderMap = new Map<string, number>();
+    if (this.settings.unsortedHandling === "folder") {
+      folderMap.set(
+        this.getCollectionFolder(UNSORTED_COLLECTION_ID, collections),
+        UNSORTED_COLLECTION_ID
+      );
+    }
+    // The trash folder is left out: dragging a note there shouldn't trash
+    // the bookmark
+    for (const collection of collections.values()) {
+      folderMap.set(
+        this.getCollectionFolder(collection._id, collections),
+        collection._id
+      );
+    }
+
+    // Folders of renamed collections still count until they are renamed too
+    const root = normalizePath(this.settings.resourceFolder);
+    for (const [id, path] of Object.entries(this.syncState.collectionFolders)) {
+      const relativePath = path.slice(root.length + 1);
+      if (this.isInResourceFolder(`${path}/`) && !folderMap.has(relativePath)) {
+        folderMap.set(relativePath, Number(id));
+      }
+    }
+    return folderMap;
+  }
+
+  /**
+   * Find the collection a folder mirrors, or null when the folder is not a
+   * collection folder under resourceFolder.
+   */
+  findCollectionIdForFolder(
+    folderPath: string,
+    collections: Map<number, RaindropCollection>,
+    folderMap = this.buildCollectionFolderMap(collections)
+  ): number | null {
+    if (!this.isInResourceFolder(`${folderPath}/`)) return null;
+
+    const root = normalizePath(this.settings.resourceFolder);
+    return folderMap.get(folderPath.slice(root.length + 1)) ?? null;
+  }
+
+  /**
+   * Notes with a `url` but no `raindrop_id` become new Raindrop bookmarks.
+   */
+  planNewBookmarksFromNotes(
+    collections: Map<number, RaindropCollection>
+  ): SyncPlanItem[] {
+    const items: SyncPlanItem[] = [];
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      if (!frontmatter?.url || frontmatter.raindrop_id) continue;
+      if (frontmatter.type === "raindrop-sync-status") continue;
+      if (!this.isBookmarkNoteLocation(file.path, frontmatter)) continue;
+
+      const rawTags: unknown[] = Array.isArray(frontmatter.tags)
+        ? frontmatter.tags
+        : typeof frontmatter.tags === "string"
+        ? frontmatter.tags.split(",")
+        : [];
+      const tags = this.toRaindropTags(
+        rawTags
+          .map((tag) => String(tag).replace(/^#/, "").trim())
+          .filter((tag) => tag.length > 0 && tag !== "raindrop-bookmarks"),
+        []
+      );
+
+      // A `collection` property naming an existing collection wins over the
+      // folder the note is in
+      const namedCollection = [...collections.values()].find(
+        (collection) => collection.title === frontmatter.collection
+      );
+      const collectionId = namedCollection
+        ? namedCollection._id
+        : this.findCollectionIdForFolder(file.parent?.path ?? "", collections) ??
+          -1;
+
+      const newBookmark: RaindropNewBookmark = {
+        link: String(frontmatter.url),
+        title: String(frontmatter.title || file.basename),
+        tags,
+        note: "",
+        collectionId,
+      };
+
+      items.push({
+        action: "create-remote",
+        raindropId: 0,
+        title: newBookmark.title,
+        path: file.path,
+        before: "",
+        after: [
+          `URL: ${newBookmark.link}`,
+          `Title: ${newBookmark.title}`,
+          `Collection: ${
+            collections.get(collectionId)?.title ?? "Unsorted"
+          }`,
+          tags.length > 0 ? `Tags: ${tags.join(", ")}` : "",
+        ]
+          .filter((line) => line.length > 0)
+          .join("\n"),
+        selected: true,
+        newBookmark,
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Folders only say something about collections when notes are laid out
+   * by collection and changes are allowed to flow back to Raindrop.
+   */
+  tracksCollectionFolders(): boolean {
+    return this.settings.bidirectionalSync && this.usesCollectionFolderLayout();
+  }
+
+  // Notes are laid out in one folder per collection
+  usesCollectionFolderLayout(): boolean {
+    return (
+      this.settings.useCollectionFolders && !this.settings.folderTemplate.trim()
+    );
+  }
+
+  /**
+   * Collections whose folder changed since the last sync (renamed or moved
+   * to another parent in Raindrop) get their folder renamed as a whole, so
+   * other files kept inside move along. Nested folders moved along with a
+   * renamed parent are left out.
+   */
+  planFolderRenames(
+    collections: Map<number, RaindropCollection>
+  ): SyncPlanItem[] {
+    const items: SyncPlanItem[] = [];
+    if (!this.usesCollectionFolderLayout()) return items;
+
+    // Parents first, so their renames can be applied to nested folders
+    const recorded = Object.entries(this.syncState.collectionFolders).sort(
+      ([, a], [, b]) => a.split("/").length - b.split("/").length
+    );
+
+    for (const [id, recordedPath] of recorded) {
+      const collectionId = Number(id);
+      if (collectionId > 0 && !collections.has(collectionId)) continue;
+
+      const oldPath = this.applyFolderRenames(recordedPath, items);
+      const newPath = normalizePath(
+        `${this.settings.resourceFolder}/${this.getCollectionFolder(
+          collectionId,
+          collections
+        )}`
+      );
+      if (oldPath === newPath) continue;
+
+      // Leave it to the per-note moves when the folder is gone, outside the
+      // storage folder, or the new name is already taken
+      if (
+        !(this.app.vault.getAbstractFileByPath(recordedPath) instanceof TFolder) ||
+        !this.isInResourceFolder(`${recordedPath}/`) ||
+        this.app.vault.getAbstractFileByPath(newPath) ||
+        newPath.startsWith(`${oldPath}/`)
+      ) {
+        continue;
+      }
+
+      items.push({
+        action: "rename-folder",
+        raindropId: 0,
+        title:
+          collections.get(collectionId)?.title ?? newPath.split("/").pop() ?? "",
+        path: newPath,
+        oldPath,
+        before: oldPath,
+        after: newPath,
+        selected: true,
+        collectionId,
+      });
+    }
+
+    return items;
+  }
+
+  // Where a path ends up once the planned folder renames are done
+  applyFolderRenames(path: string, renames: SyncPlanItem[]): string {
+    for (const rename of renames) {
+      if (!rename.selected) continue;
+      const oldPath = rename.oldPath as string;
+      if (path === oldPath) {
+        path = rename.path;
+      } else if (path.startsWith(`${oldPath}/`)) {
+        path = `${rename.path}${path.slice(oldPath.length)}`;
+      }
+    }
+    return path;
+  }
+
+  async renameCollectionFolder(item: SyncPlanItem): Promise<void> {
+    const oldPath = item.oldPath as string;
+    const folder = this.app.vault.getAbstractFileByPath(oldPath);
+    if (!(folder instanceof TFolder)) {
+      throw new Error(`Folder ${oldPath} no longer exists`);
+    }
+    if (this.app.vault.getAbstractFileByPath(item.path)) {
+      throw new Error(`${item.path} already exists`);
+    }
+
+    await this.ensureFolderExists(item.path.split("/").slice(0, -1).join("/"));
+    await this.app.fileManager.renameFile(folder, item.path);
+    this.journal({ op: "rename", path: item.path, oldPath });
+    // Re-index right away rather than waiting for the vault event
+    this.onVaultRename(folder, oldPath);
+    this.syncState.collectionFolders[item.collectionId as number] = item.path;
+
+    console.log(`📁 Renamed collection folder: ${oldPath} → ${item.path}`);
+  }
+
+  /**
+   * Remember which folder each collection's notes are in, for
+   * planFolderRenames. Folders that don't exist (yet) keep their old entry.
+   */
+  recordCollectionFolders(collections: Map<number, RaindropCollection>) {
+    if (!this.usesCollectionFolderLayout()) return;
+
+    const folders = this.syncState.collectionFolders;
+    for (const id of Object.keys(folders)) {
+      const collectionId = Number(id);
+      if (collectionId > 0 && !collections.has(collectionId)) {
+        delete folders[id];
+      }
+    }
+
+    for (const collectionId of [
+      UNSORTED_COLLECTION_ID,
+      TRASH_COLLECTION_ID,
+      ...collections.keys(),
+    ]) {
+      const path = normalizePath(
+        `${this.settings.resourceFolder}/${this.getCollectionFolder(
+          collectionId,
+          collections
+        )}`
+      );
+      if (this.app.vault.getAbstractFileByPath(path) instanceof TFolder) {
+        folders[collectionId] = path;
+      }
+    }
+  }
+
+  recordNoteCollection(bookmark: RaindropBookmark) {
+    const file = this.findFileByRaindropId(bookmark._id);
+    if (!file || !this.isInResourceFolder(file.path)) return;
+
+    const collectionId = bookmark.collection?.$id ?? -1;
+    if (this.syncState.noteCollections[bookmark._id] === collectionId) return;
+    this.syncState.noteCollections[bookmark._id] = collectionId;
+    this.requestSaveState();
+  }
+
+  /**
+   * Notes the user moved into a different collection folder since the last
+   * sync become collection changes on the Raindrop item.
+   */
+  planCollectionMovesToRaindrop(
+    collections: Map<number, RaindropCollection>
+  ): SyncPlanItem[] {
+    const items: SyncPlanItem[] = [];
+    const folderMap = this.buildCollectionFolderMap(collections);
+    const collectionTitle = (id: number) =>
+      id === -1 ? "Unsorted" : collections.get(id)?.title ?? `#${id}`;
+
+    for (const { raindropId, file } of this.getIndexedNotes()) {
+      const knownCollectionId = this.syncState.noteCollections[raindropId];
+      if (knownCollectionId === undefined) continue;
+      if (!this.isInResourceFolder(file.path)) continue;
+
+      // Folders that don't map to a collection (or collections that have
+      // since been renamed) are left to the regular Raindrop → Obsidian pass
+      const folderCollectionId = this.findCollectionIdForFolder(
+        file.parent?.path ?? "",
+        collections,
+        folderMap
+      );
+      if (folderCollectionId === null) continue;
+      if (folderCollectionId === knownCollectionId) continue;
+
+      items.push({
+        action: "move-remote",
+        raindropId,
+        title: file.basename,
+        path: file.path,
+        before: `Collection: ${collectionTitle(knownCollectionId)}`,
+        after: `Collection: ${collectionTitle(folderCollectionId)}`,
+        selected: true,
+        collectionId: folderCollectionId,
+      });
+    }
+
+    return items;
+  }
+
+  async moveRaindropToCollection(
+    raindropId: number,
+    collectionId: number
+  ): Promise<void> {
+    await this.client.updateRaindrop(raindropId, {
+      collection: { $id: collectionId },
+    });
+
+    console.log(`📦 Moved Raindrop bookmark ${raindropId} to collection ${collectionId}`);
+  }
+
+  async createRaindropFromNote(item: SyncPlanItem): Promise<void> {
+    const newBookmark = item.newBookmark as RaindropNewBookmark;
+    const file = this.app.vault.getAbstractFileByPath(item.path);
+    if (!(file instanceof TFile)) {
+      throw new Error(`Note no longer exists: ${item.path}`);
+    }
+
+    // The note's own text becomes the Raindrop note: its notes block or
+    // section if it has one, otherwise everything below the frontmatter
+    const content = await this.app.vault.read(file);
+    const note =
+      this.getNoteText(content) ??
+      content.slice(getFrontMatterInfo(content).contentStart).trim();
+
+    const created = await this.client.createRaindrop({
+      link: newBookmark.link,
+      title: newBookmark.title,
+      tags: newBookmark.tags,
+      note,
+      collection: { $id: newBookmark.collectionId },
+      pleaseParse: {},
+    });
+    if (!created?._id) {
+      throw new Error("Unexpected response creating bookmark");
+    }
+
+    // Record the new ID so later syncs treat this as a regular synced note
+    const latest = await this.app.vault.read(file);
+    this.journal({ op: "modify", path: file.path, content: latest });
+    await this.app.vault.modify(
+      file,
+      this.setFrontmatterValues(latest, {
+        raindrop_id: String(created._id),
+        last_synced: new Date().toISOString(),
+      })
+    );
+    this.indexNote(created._id, file.path);
+    this.syncState.noteCollections[created._id] = newBookmark.collectionId;
+    this.recordSyncedFields(created);
+
+    console.log(`➕ Created Raindrop bookmark ${created._id} from ${file.path}`);
+  }
+
+  getAllFilesInFolder(folder: TFolder): TFile[] {
+    const files: TFile[] = [];
+
+    for (const child of folder.children) {
+      if (child instanceof TFile) {
+        files.push(child);
+      } else if (child instanceof TFolder) {
+        files.push(...this.getAllFilesInFolder(child));
+      }
+    }
+
+    return files;
+  }
+
+  async updateRaindrop(
+    raindropId: number,
+    update: RaindropNoteUpdate
+  ): Promise<RaindropBookmark | null> {
+    try {
+      // Only changed fields are sent so Raindrop keeps everything else
+      const { highlights, ...fields } = update;
+      const updateData: any = { ...fields };
+
+      // The tag every note gets locally never goes back to Raindrop
+      if (updateData.tags) {
+        updateData.tags = updateData.tags.filter(
+          (tag: string) => tag.toLowerCase() !== "raindrop-bookmarks"
+        );
+      }
+
+      // Highlights are matched by _id; omitted highlights are left untouched
+      if (highlights.length > 0) {
+        updateData.highlights = highlights;
+      }
+
+      return (await this.client.updateRaindrop(raindropId, updateData)) ?? null;
+    } catch (error) {
+      console.error(`Failed to update raindrop ${raindropId}:`, error);
+      throw error;
+    }
+  }
+
+  // Obsidian-friendly spelling for a Raindrop tag without a mapping
+  // "AI in UX" -> "ai-in-ux", "C++" -> "cplusplus", "dev/Frontend" -> "dev/frontend"
+  defaultObsidianTag(tag: string): string {
+    return tag
+      .toLowerCase()
+      .trim()
+      .replace(/\+/g, "plus")
+      .replace(/#/g, "sharp")
+      .replace(/&/g, "and")
+      .replace(/[\s.]+/g, "-")
+      .replace(/[^\w\u00C0-\uFFFF\/-]/g, "") // Keep letters, digits, _, - and /
+      .replace(/-{2,}/g, "-")
+      .split("/")
+      .map((segment) => segment.replace(/^-+|-+$/g, ""))
+      .filter((segment) => segment.length > 0)
+      .join("/");
+  }
+
+  toObsidianTag(tag: string): string {
+    return (
+      this.settings.tagMappings[tag] ??
+      this.pendingTagMappings[tag] ??
+      this.defaultObsidianTag(tag)
+    );
+  }
+
+  /**
+   * Work out a mapping for every Raindrop tag seen for the first time, so
+   * the original spelling survives the round trip. A tag that would collide
+   * with a different tag's Obsidian form gets a numbered suffix; tags that
+   * only differ in case share one Obsidian tag. Returns the new mappings.
+   */
+  learnTagMappings(bookmarks: RaindropBookmark[]): Record<string, string> {
+    const mappings = { ...this.settings.tagMappings };
+    const learned: Record<string, string> = {};
+    const owners = new Map<string, string>();
+    for (const [raindropTag, obsidianTag] of Object.entries(mappings)) {
+      if (!owners.has(obsidianTag)) owners.set(obsidianTag, raindropTag);
+    }
+
+    for (const bookmark of bookmarks) {
+      for (const tag of bookmark.tags || []) {
+        if (tag in mappings) continue;
+
+        const base = this.defaultObsidianTag(tag);
+        if (!base) continue;
+
+        let obsidianTag = base;
+        for (
+          let suffix = 2;
+          owners.has(obsidianTag) &&
+          (owners.get(obsidianTag) as string).toLowerCase() !== tag.toLowerCase();
+          suffix++
+        ) {
+          obsidianTag = `${base}-${suffix}`;
+        }
+
+        mappings[tag] = obsidianTag;
+        learned[tag] = obsidianTag;
+        if (!owners.has(obsidianTag)) owners.set(obsidianTag, tag);
+      }
+    }
+
+    return learned;
+  }
+
+  /**
+   * Map Obsidian tags back to Raindrop tags. An Obsidian tag stands for all
+   * of the bookmark's current tags that map to it (so merged tags are kept),
+   * otherwise for the first mapped Raindrop tag, otherwise for itself.
+   */
+  toRaindropTags(obsidianTags: string[], currentTags: string[]): string[] {
+    const raindropTags: string[] = [];
+
+    for (const obsidianTag of obsidianTags) {
+      const fromBookmark = currentTags.filter(
+        (tag) =>
+          this.toObsidianTag(tag) === obsidianTag ||
+          this.defaultObsidianTag(tag) === obsidianTag
+      );
+      const fromMappings = Object.keys(this.settings.tagMappings).find(
+        (tag) => this.settings.tagMappings[tag] === obsidianTag
+      );
+      const matches =
+        fromBookmark.length > 0 ? fromBookmark : [fromMappings ?? obsidianTag];
+
+      for (const tag of matches) {
+        if (!raindropTags.includes(tag)) raindropTags.push(tag);
+      }
+    }
+
+    return raindropTags;
+  }
+
+  getCollectionPath(
+    collectionId: number,
+    collections: Map<number, RaindropCollection>
+  ): string {
+    const pathParts: string[] = [];
+    let currentId: number | undefined = collectionId;
+
+    // Walk up the parent chain to build the full path
+    while (currentId !== undefined) {
+      const collection = collections.get(currentId);
+      if (!collection) break;
+
+      // Add current collection title to the path
+      pathParts.unshift(this.sanitizeFileName(collection.title));
+
+      // Move to parent
+      currentId = collection.parent?.$id;
+    }
+
+    // Join all parts with /
+    return pathParts.join("/");
+  }
+
+  /**
+   * Folder (relative to resourceFolder) a collection's notes go into with
+   * the collection folder layout. Shared collections sit under the shared
+   * folder by owner; unknown collections end up with the Unsorted ones.
+   */
+  getCollectionFolder(
+    collectionId: number,
+    collections: Map<number, RaindropCollection>
+  ): string {
+    if (collectionId === TRASH_COLLECTION_ID) {
+      return this.sanitizeFileName(this.settings.trashFolder || "Trash");
+    }
+
+    const collection = collections.get(collectionId);
+    if (!collection) {
+      return this.sanitizeFileName(this.settings.unsortedFolder || "Unsorted");
+    }
+
+    const collectionPath = this.getCollectionPath(collectionId, collections);
+    if (!collection.owner) return collectionPath;
+
+    return [
+      this.sanitizeFileName(this.settings.sharedFolder || "Shared"),
+      this.sanitizeFileName(collection.owner),
+      collectionPath,
+    ].join("/");
+  }
+
+  async ensureFolderExists(folderPath: string): Promise<void> {
+    const normalizedPath = normalizePath(folderPath);
+    const folder = this.app.vault.getAbstractFileByPath(normalizedPath);
+
+    if (!folder) {
+      // createFolder makes missing parents too; journal the topmost one
+      let createdPath = normalizedPath;
+      let parentPath = createdPath.split("/").slice(0, -1).join("/");
+      while (parentPath && !this.app.vault.getAbstractFileByPath(parentPath)) {
+        createdPath = parentPath;
+        parentPath = createdPath.split("/").slice(0, -1).join("/");
+      }
+
+      try {
+        await this.app.vault.createFolder(normalizedPath);
+        this.journal({ op: "create", path: createdPath });
+      } catch (error: any) {
+        // Ignore "already exists" errors - this can happen with race conditions
+        if (!error.message?.includes("already exists")) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Work out where a bookmark's note belongs, using the folder and file name
+   * templates when set and the collection folder layout otherwise.
+   */
+  getNoteLocation(
+    bookmark: RaindropBookmark,
+    collections: Map<number, RaindropCollection>
+  ): {
+    folderPath: string;
+    baseFileName: string;
+    collectionTitle: string;
+    collectionInfo: CollectionInfo;
+  } {
+    let folderPath = this.settings.resourceFolder;
+    const collectionId = bookmark.collection?.$id;
+    const collection = collections.get(collectionId);
+
+    // Look up collection title from the collections map using the collection ID
+    const collectionTitle =
+      collection?.title ||
+      (collectionId === TRASH_COLLECTION_ID ? "Trash" : "Unsorted");
+    const collectionInfo: CollectionInfo = {
+      collectionPath: collection
+        ? this.getCollectionPath(collectionId, collections)
+        : collectionTitle,
+      collectionOwner: collection?.owner ?? "",
+    };
+
+    const context = this.buildTemplateContext(
+      bookmark,
+      collectionTitle,
+      collectionInfo
+    );
+    const filters = this.templateFilters();
+
+    if (this.settings.folderTemplate.trim()) {
+      // Each rendered segment is sanitized on its own so "/" keeps nesting
+      const segments = renderTemplate(
+        this.settings.folderTemplate,
+        context,
+        filters
+      )
+        .split("/")
+        .map((segment) => segment.trim())
+        .filter((segment) => segment.length > 0)
+        .map((segment) => this.sanitizeFileName(segment));
+
+      if (segments.length > 0) {
+        folderPath = `${this.settings.resourceFolder}/${segments.join("/")}`;
+      }
+    } else if (this.settings.useCollectionFolders) {
+      // Build full nested path including parent groups
+      folderPath = `${this.settings.resourceFolder}/${this.getCollectionFolder(
+        collectionId,
+        collections
+      )}`;
+    }
+
+    const baseFileName = this.sanitizeFileName(
+      renderTemplate(
+        this.settings.fileNameTemplate.trim() || "{{title}}",
+        context,
+        filters
+      )
+    );
+
+    return { folderPath, baseFileName, collectionTitle, collectionInfo };
+  }
+
+  getPathLayoutKey(settings: RaindropSyncSettings = this.settings): string {
+    return JSON.stringify([
+      settings.fileNameTemplate.trim() || "{{title}}",
+      settings.folderTemplate.trim(),
+      settings.useCollectionFolders,
+      settings.unsortedFolder,
+      settings.trashFolder,
+      settings.sharedFolder,
+    ]);
+  }
+
+  hasPathLayoutChanged(): boolean {
+    const applied =
+      this.syncState.appliedPathLayout ??
+      this.getPathLayoutKey(DEFAULT_SETTINGS);
+    return applied !== this.getPathLayoutKey();
+  }
+
+  async planNoteForBookmark(
+    bookmark: RaindropBookmark,
+    collections: Map<number, RaindropCollection>,
+    reservedPaths: Set<string>,
+    folderRenames: SyncPlanItem[] = []
+  ): Promise<SyncPlanItem | null> {
+    // Determine folder and file name based on settings
+    const { folderPath, baseFileName, collectionTitle, collectionInfo } =
+      this.getNoteLocation(bookmark, collections);
+    const indexedFile = this.findFileByRaindropId(bookmark._id);
+
+    // Ensure file name uniqueness. Notes opted in with the marker property
+    // outside the storage folder stay where the user put them.
+    const filePath =
+      indexedFile && !this.isInResourceFolder(indexedFile.path)
+        ? indexedFile.path
+        : normalizePath(
+            `${folderPath}/${this.ensureUniqueFileName(
+              folderPath,
+              baseFileName,
+              bookmark._id,
+              reservedPaths
+            )}.md`
+          );
+    reservedPaths.add(filePath);
+    // A bookmark back in Raindrop (e.g. restored from the trash) moves its
+    // archived note back
+    const existingFile = indexedFile ?? this.findArchivedNote(bookmark._id);
+
+    const item = {
+      raindropId: bookmark._id,
+      title: bookmark.title || "Untitled",
+      path: filePath,
+      selected: true,
+      bookmark,
+    };
+
+    if (!existingFile) {
+      return {
+        ...item,
+        action: "create",
+        before: "",
+        after: this.generateNoteContent(
+          bookmark,
+          collectionTitle,
+          collectionInfo
+        ),
+      };
+    }
+
+    const currentContent = await this.app.vault.read(existingFile);
+    const newContent = this.computeNoteUpdate(
+      bookmark,
+      collectionTitle,
+      collectionInfo,
+      existingFile,
+      currentContent
+    );
+
+    // File exists elsewhere (moved to a different collection or template),
+    // other than where a planned folder rename takes it
+    if (this.applyFolderRenames(existingFile.path, folderRenames) !== filePath) {
+      return {
+        ...item,
+        action: "move",
+        oldPath: existingFile.path,
+        before: currentContent,
+        after: newContent ?? currentContent,
+      };
+    }
+
+    if (newContent === null) {
+      // Images still to download, unless the last sync found the network
+      // unavailable; the preview lists what would be downloaded
+      const missingImages = this.imagesOffline
+        ? []
+        : this.getMissingImageUrls(bookmark);
+      if (missingImages.length === 0) return null;
+
+      return {
+        ...item,
+        action: "download-images",
+        before: "",
+        after: missingImages.join("\n"),
+      };
+    }
+
+    return {
+      ...item,
+      action: "update",
+      before: currentContent,
+      after: newContent,
+    };
+  }
+
+  /**
+   * New content for an existing note, or null if nothing but last_synced
+   * would change. Notes modified locally since the last sync keep their
+   * notes text and highlight annotations, and frontmatter keys and
+   * sections the user added are always kept.
+   */
+  computeNoteUpdate(
+    bookmark: RaindropBookmark,
+    collectionTitle: string,
+    collectionInfo: CollectionInfo,
+    file: TFile,
+    currentContent: string
+  ): string | null {
+    const withoutLastSynced = (content: string) =>
+      content.replace(/last_synced:\s*.+/, "");
+
+    // Check if file was modified locally (protect local edits)
+    const lastSynced = parseFrontmatter(currentContent).last_synced;
+    let noteContent: string;
+
+    // If file was modified after last sync (or has a conflict waiting to
+    // be resolved), preserve the local notes
+    if (
+      lastSynced &&
+      (this.isModifiedSinceSync(file, new Date(lastSynced)) ||
+        currentContent.includes(CONFLICT_MARKER_START))
+    ) {
+      console.log(`  🔒 File modified locally, preserving notes section`);
+
+      const localNotes = this.getLocalNotesToKeep(bookmark, currentContent);
+
+      // Keep highlight annotations written locally as well
+      const localAnnotations = this.parseHighlightAnnotations(currentContent);
+
+      // Generate new content with local notes preserved
+      const generated = this.generateNoteContent(bookmark, collectionTitle, {
+        ...collectionInfo,
+        localAnnotations,
+      });
+      noteContent =
+        localNotes === null
+          ? generated
+          : this.setNoteText(generated, localNotes);
+    } else {
+      noteContent = this.generateNoteContent(
+        bookmark,
+        collectionTitle,
+        collectionInfo
+      );
+    }
+
+    // Only update if content is different
+    const merged = this.mergeNoteContent(currentContent, noteContent);
+    return withoutLastSynced(merged) === withoutLastSynced(currentContent)
+      ? null
+      : merged;
+  }
+
+  /**
+   * Notes text to keep in a note modified locally: the local text when only
+   * Obsidian changed it, merged with Raindrop's when both did, or null to
+   * take Raindrop's when the local text is still as last synced.
+   */
+  getLocalNotesToKeep(
+    bookmark: RaindropBookmark,
+    content: string
+  ): string | null {
+    const local = this.getNoteText(content) ?? "";
+    const base = this.syncState.syncedFields[bookmark._id]?.note;
+    // Unresolved conflict markers stay until the user removes them
+    if (base === undefined || content.includes(CONFLICT_MARKER_START)) {
+      return local;
+    }
+    if (local.trim() === base.trim()) return null;
+
+    const remote = (bookmark.note || "").trim();
+    if (remote === base.trim()) return local;
+
+    // Overlapping edits are left to the push, which asks or marks them
+    const { merged, conflicts } = mergeThreeWay(
+      base.trim(),
+      local.trim(),
+      remote
+    );
+    return conflicts > 0 ? local : merged;
+  }
+
+  /**
+   * Put generated content into an existing note. Only the frontmatter keys
+   * the note template writes and its managed blocks are replaced; notes
+   * without blocks (older notes, templates without markers) have the
+   * level-2 sections the template writes replaced instead. Properties and
+   * text the user added stay as they are, in their order.
+   */
+  mergeNoteContent(currentContent: string, generatedContent: string): string {
+    const template = this.noteTemplate ?? DEFAULT_NOTE_TEMPLATE;
+    const current = getFrontMatterInfo(currentContent);
+    const generated = getFrontMatterInfo(generatedContent);
+
+    // raindrop_deleted goes once the bookmark is back in Raindrop
+    const ownedKeys = new Set([
+      "raindrop_id",
+      "last_synced",
+      "type",
+      "raindrop_deleted",
+      ...getTemplateFrontmatterKeys(template),
+      ...splitFrontmatterEntries(generated.frontmatter).map(
+        (entry) => entry.key as string
+      ),
+    ]);
+    const ownedHeadings = new Set([
+      "",
+      HIGHLIGHTS_HEADING,
+      ...(template.match(/^## [^{\n]*$/gm) ?? []).map((line) => line.trim()),
+    ]);
+
+    const currentBody = currentContent.slice(
+      current.exists ? current.contentStart : 0
+    );
+    const generatedBody = generatedContent.slice(generated.contentStart);
+    const body =
+      hasManagedBlocks(currentBody) && hasManagedBlocks(generatedBody)
+        ? mergeManagedBlocks(currentBody, generatedBody)
+        : mergeSections(currentBody, generatedBody, ownedHeadings);
+
+    if (!current.exists) {
+      return generatedContent.slice(0, generated.contentStart) + body;
+    }
+    return (
+      currentContent.slice(0, current.from) +
+      mergeFrontmatter(
+        currentContent.slice(current.from, current.to),
+        generated.frontmatter,
+        ownedKeys
+      ) +
+      currentContent.slice(current.to, current.contentStart) +
+      body
+    );
+  }
+
+  /**
+   * Text synced with the Raindrop note: the configured managed block, or
+   * the Notes section of notes without blocks. Null if there's neither.
+   */
+  getNoteText(content: string): string | null {
+    const block = getManagedBlock(content, this.getNoteBlockName());
+    if (block !== null) return block.trim();
+    if (hasManagedBlocks(content)) return null;
+
+    const notesMatch = content.match(NOTES_SECTION_PATTERN);
+    return notesMatch ? notesMatch[1].trim() : null;
+  }
+
+  setNoteText(content: string, text: string): string {
+    const name = this.getNoteBlockName();
+    if (getManagedBlock(content, name) !== null) {
+      return setManagedBlock(content, name, text);
+    }
+    return content.replace(
+      NOTES_SECTION_PATTERN,
+      () => `## Notes\n\n${text}\n`
+    );
+  }
+
+  getNoteBlockName(): string {
+    return this.settings.noteBlock.trim() || DEFAULT_SETTINGS.noteBlock;
+  }
+
+  async createOrUpdateNote(
+    item: SyncPlanItem,
+    collections: Map<number, RaindropCollection>
+  ): Promise<"created" | "updated" | "moved" | "skipped"> {
+    const bookmark = item.bookmark as RaindropBookmark;
+    const { collectionTitle, collectionInfo } = this.getNoteLocation(
+      bookmark,
+      collections
+    );
+
+    // Ensure folder exists (creates all parent folders)
+    const folderPath = item.path.split("/").slice(0, -1).join("/");
+    await this.ensureFolderExists(folderPath);
+
+    if (item.action === "create") {
+      const noteContent = this.generateNoteContent(
+        bookmark,
+        collectionTitle,
+        collectionInfo
+      );
+      await this.app.vault.create(item.path, noteContent);
+      this.journal({ op: "create", path: item.path });
+      this.indexNote(bookmark._id, item.path);
+      return "created";
+    }
+
+    const file =
+      this.findFileByRaindropId(bookmark._id) ??
+      this.findArchivedNote(bookmark._id);
+    if (!file) {
+      throw new Error(`Note for bookmark ${bookmark._id} no longer exists`);
+    }
+
+    let moved = false;
+    if (item.action === "move" && file.path !== item.path) {
+      // Rename through the file manager so links to the note are updated
+      const oldPath = file.path;
+      await this.app.fileManager.renameFile(file, item.path);
+      this.journal({ op: "rename", path: item.path, oldPath });
+      this.unindexPath(oldPath);
+      this.indexNote(bookmark._id, item.path);
+      moved = true;
+    }
+
+    // Derive the content again from the file as it is now, since a push
+    // or the user may have changed it after the plan was made
+    const currentContent = await this.app.vault.read(file);
+    const newContent = this.computeNoteUpdate(
+      bookmark,
+      collectionTitle,
+      collectionInfo,
+      file,
+      currentContent
+    );
+
+    if (newContent !== null) {
+      this.journal({ op: "modify", path: file.path, content: currentContent });
+      await this.app.vault.modify(file, newContent);
+    }
+    if (moved) return "moved";
+    return newContent !== null ? "updated" : "skipped";
+  }
+
+  findFileByRaindropId(raindropId: number): TFile | null {
+    const path = this.syncState.noteIndex[raindropId];
+    if (!path) return null;
+
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) return file;
+
+    // Index entry is stale, drop it
+    this.unindexPath(path);
+    return null;
+  }
+
+  // Note archived when its bookmark was removed from Raindrop
+  findArchivedNote(raindropId: number): TFile | null {
+    const folder = this.app.vault.getAbstractFileByPath(
+      normalizePath(this.settings.archiveFolder || "Raindrop Archive")
+    );
+    if (!(folder instanceof TFolder)) return null;
+
+    for (const child of folder.children) {
+      if (
+        child instanceof TFile &&
+        child.extension === "md" &&
+        this.getRaindropIdFromCache(child) === raindropId
+      ) {
+        return child;
+      }
+    }
+    return null;
+  }
+
+  sanitizeFileName(name: string): string {
+    // Handle undefined or empty names
+    if (!name || name.trim() === "") {
+      return `Untitled-${Date.now()}`;
+    }
+
+    // Remove or replace invalid characters
+    return name
+      .replace(/[\\/:*?"<>|]/g, "-")
+      .replace(/\s+/g, " ")
+      .trim()
+      .substring(0, 200); // Limit length
+  }
+
+  ensureUniqueFileName(
+    folderPath: string,
+    baseFileName: string,
+    raindropId: number,
+    reservedPaths?: Set<string>
+  ): string {
+    let fileName = baseFileName;
+    let counter = 1;
+    const maxAttempts = 1000; // Prevent infinite loops
+
+    while (counter < maxAttempts) {
+      const filePath = normalizePath(`${folderPath}/${fileName}.md`);
+      const existingFile = this.app.vault.getAbstractFileByPath(filePath);
+
+      // Paths already claimed by other bookmarks in the same sync plan
+      const reserved = reservedPaths?.has(filePath) ?? false;
+
+      if (!existingFile && !reserved) {
+        // File doesn't exist, we can use this name
+        return fileName;
+      }
+
+      // File exists, check if it's the same bookmark
+      if (!reserved && this.syncState.noteIndex[raindropId] === filePath) {
+        // Same bookmark, we can use this name (will update existing file)
+        return fileName;
+      }
+
+      // Different bookmark with same name, add counter
+      counter++;
+      fileName = `${baseFileName}-${counter}`;
+    }
+
+    // Fallback: use raindrop ID if we can't find a unique name
+    console.warn(
+      `Could not find unique filename for ${baseFileName}, using raindrop ID`
+    );
+    return `${baseFileName}-${raindropId}`;
+  }
+
+  escapeYamlValue(value: string): string {
+    // If value is empty, return empty string
+    if (!value) return '""';
+
+    // Check if value needs quoting (contains special YAML characters)
+    const needsQuoting =
+      /[:\[\]{}#&*!|>'"%@`]/.test(value) ||
+      value.startsWith(" ") ||
+      value.endsWith(" ") ||
+      value.includes("\n");
+
+    if (!needsQuoting) {
+      return value;
+    }
+
+    // Escape backslashes, double quotes and line breaks, then wrap in quotes
+    const escaped = value
+      .replace(/\\/g, "\\\\")
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, "\\n");
+    return `"${escaped}"`;
+  }
+
+  // Cover first, then the media images, without duplicates
+  getBookmarkImageUrls(bookmark: RaindropBookmark): string[] {
+    if (!this.settings.downloadImages) return [];
+
+    const urls = [
+      bookmark.cover,
+      ...(bookmark.media || [])
+        .filter((media) => !media.type || media.type === "image")
+        .map((media) => media.link),
+    ].filter((url) => url && /^https?:\/\//.test(url));
+    return [...new Set(urls)];
+  }
+
+  // Vault path of a downloaded image, or "" if it isn't available
+  getLocalImage(url: string): string {
+    if (!this.settings.downloadImages || !url) return "";
+    const path = this.syncState.imageFiles[url];
+    return path && this.app.vault.getAbstractFileByPath(path) ? path : "";
+  }
+
+  // Images not in the vault yet, leaving out ones that can't be downloaded
+  getMissingImageUrls(bookmark: RaindropBookmark): string[] {
+    return this.getBookmarkImageUrls(bookmark).filter(
+      (url) => this.syncState.imageFiles[url] !== "" && !this.getLocalImage(url)
+    );
+  }
+
+  /**
+   * Download the bookmark's images that aren't in the vault yet. Failures
+   * only leave the image out of the note; when offline the remaining
+   * downloads of this sync are skipped.
+   */
+  async downloadBookmarkImages(bookmark: RaindropBookmark): Promise<void> {
+    const paths: string[] = [];
+
+    for (const url of this.getBookmarkImageUrls(bookmark)) {
+      if (!this.getLocalImage(url) && !this.imagesOffline) {
+        try {
+          const path = await this.downloadImage(url);
+          if (path !== null) this.syncState.imageFiles[url] = path;
+        } catch (error) {
+          console.warn(`🖼️ Could not save ${url}:`, error);
+        }
+      }
+
+      const path = this.getLocalImage(url);
+      if (path) paths.push(path);
+    }
+
+    if (paths.length > 0) {
+      this.syncState.bookmarkImages[bookmark._id] = paths;
+    } else {
+      delete this.syncState.bookmarkImages[bookmark._id];
+    }
+    this.requestSaveState();
+  }
+
+  /**
+   * Save an image under attachmentsFolder, named by a hash of its content so
+   * the same image is only stored once. Returns the vault path, "" if the
+   * image can't be downloaded (4xx, not an image), or null to retry later.
+   */
+  async downloadImage(url: string): Promise<string | null> {
+    let response: RequestUrlResponse;
+    try {
+      response = await requestUrl({ url, method: "GET", throw: false });
+    } catch (error) {
+      this.imagesOffline = true;
+      console.warn(`🖼️ Skipping image downloads, network unavailable:`, error);
+      return null;
+    }
+    if (response.status >= 400) {
+      console.warn(`🖼️ Could not download ${url} (HTTP ${response.status})`);
+      return response.status >= 500 || response.status === 429 ? null : "";
+    }
+
+    const contentType = getHeader(response, "content-type").split(";")[0];
+    if (contentType && !contentType.startsWith("image/")) return "";
+
+    const digest = await crypto.subtle.digest("SHA-256", response.arrayBuffer);
+    const hash = Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+    const extension =
+      IMAGE_EXTENSIONS[contentType] ??
+      url.match(/\.(png|jpe?g|gif|webp|svg|avif)(?:[?#]|$)/i)?.[1].toLowerCase() ??
+      "jpg";
+
+    const folder = normalizePath(
+      this.settings.attachmentsFolder || "Raindrop Attachments"
+    );
+    const path = normalizePath(`${folder}/${hash.slice(0, 16)}.${extension}`);
+    if (!this.app.vault.getAbstractFileByPath(path)) {
+      await this.ensureFolderExists(folder);
+      await this.app.vault.createBinary(path, response.arrayBuffer);
+      this.journal({ op: "create", path });
+      console.log(`🖼️ Downloaded ${url} → ${path}`);
+    }
+    return path;
+  }
+
+  /**
+   * Remove the images of a bookmark whose note is gone, unless another
+   * bookmark's note still embeds them.
+   */
+  async removeBookmarkImages(
+    raindropId: number,
+    action: DeletedBookmarkAction
+  ): Promise<void> {
+    const paths = this.syncState.bookmarkImages[raindropId] || [];
+    delete this.syncState.bookmarkImages[raindropId];
+
+    const stillUsed = new Set(
+      Object.values(this.syncState.bookmarkImages).flat()
+    );
+    for (const path of paths) {
+      if (stillUsed.has(path)) continue;
+
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      await this.journalDeletion(file);
+      if (action === "trash") {
+        await this.app.vault.trash(file, false);
+      } else {
+        await this.app.vault.delete(file);
+      }
+      for (const [url, imagePath] of Object.entries(this.syncState.imageFiles)) {
+        if (imagePath === path) delete this.syncState.imageFiles[url];
+      }
+    }
+  }
+
+  generateHighlightsSection(
+    highlights: RaindropHighlight[],
+    localAnnotations?: Map<string, string>
+  ): string {
+    if (highlights.length === 0) return "";
+
+    // Oldest first, so new highlights are appended below existing ones
+    const sorted = [...highlights]
+      .filter((highlight) => highlight.text?.trim())
+      .sort(
+        (a, b) => new Date(a.created).getTime() - new Date(b.created).getTime()
+      );
+
+    const blocks = sorted.map((highlight) => {
+      const quote = highlight.text
+        .trim()
+        .split("\n")
+        .map((line) => `> ${line}`)
+        .join("\n");
+      const meta = [
+        highlight.color || "yellow",
+        new Date(highlight.created).toLocaleDateString(),
+      ].join(" · ");
+      const note =
+        localAnnotations?.get(highlight._id) ?? highlight.note?.trim() ?? "";
+
+      return `${quote} ^${HIGHLIGHT_BLOCK_PREFIX}${highlight._id}
+
+*${meta}*
+**Note:** ${note}`.trimEnd();
+    });
+
+    return `${HIGHLIGHTS_HEADING}\n\n${blocks.join("\n\n")}\n\n`;
+  }
+
+  /**
+   * Read the per-highlight annotations from a note's Highlights section,
+   * keyed by Raindrop highlight ID (taken from the block ID). An annotation
+   * runs from its "**Note:**" line up to the next highlight quote.
+   */
+  parseHighlightAnnotations(content: string): Map<string, string> {
+    const annotations = new Map<string, string>();
+    const section =
+      getManagedBlock(content, HIGHLIGHTS_BLOCK) ??
+      content.match(/## Highlights\n([\s\S]*?)(?=\n## |$)/)?.[1];
+    if (section == null) return annotations;
+
+    const blockIdPattern = new RegExp(
+      `\\^${HIGHLIGHT_BLOCK_PREFIX}([A-Za-z0-9-]+)\\s*$`
+    );
+    let currentId: string | null = null;
+    let noteLines: string[] | null = null;
+
+    const flush = () => {
+      if (currentId && noteLines) {
+        annotations.set(currentId, noteLines.join("\n").trim());
+      }
+      noteLines = null;
+    };
+
+    for (const line of section.split("\n")) {
+      const blockIdMatch = line.match(blockIdPattern);
+      if (line.startsWith(">")) {
+        flush();
+        if (blockIdMatch) currentId = blockIdMatch[1];
+        continue;
+      }
+
+      if (noteLines) {
+        noteLines.push(line);
+      } else if (currentId && line.startsWith("**Note:**")) {
+        noteLines = [line.slice("**Note:**".length)];
+      }
+    }
+    flush();
+
+    return annotations;
+  }
+
+  async loadNoteTemplate(): Promise<string | null> {
+    const templatePath = this.settings.noteTemplatePath.trim();
+    if (!templatePath) return null;
+
+    const normalized = normalizePath(
+      templatePath.endsWith(".md") ? templatePath : `${templatePath}.md`
+    );
+    const file = this.app.vault.getAbstractFileByPath(normalized);
+
+    if (!(file instanceof TFile)) {
+      console.warn(
+        `Note template not found at ${normalized}, using the built-in layout`
+      );
+      return null;
+    }
+
+    const template = await this.app.vault.read(file);
+
+    // Fail the sync up front instead of once per bookmark
+    try {
+      parseTemplate(template);
+    } catch (error: any) {
+      throw new Error(`Invalid note template ${normalized}: ${error.message}`);
+    }
+
+    return template;
+  }
+
+  async createDefaultTemplateFile(): Promise<TFile> {
+    const templatePath = this.settings.noteTemplatePath.trim();
+    if (!templatePath) {
+      throw new Error("No template path configured");
+    }
+
+    const normalized = normalizePath(
+      templatePath.endsWith(".md") ? templatePath : `${templatePath}.md`
+    );
+    const existing = this.app.vault.getAbstractFileByPath(normalized);
+    if (existing instanceof TFile) return existing;
+
+    const parentPath = normalized.split("/").slice(0, -1).join("/");
+    if (parentPath) await this.ensureFolderExists(parentPath);
+
+    return await this.app.vault.create(normalized, DEFAULT_NOTE_TEMPLATE);
+  }
+
+  /**
+   * Render the configured template against the most recent bookmark so the
+   * result can be checked from the settings tab before running a sync.
+   */
+  async renderTemplatePreview(): Promise<string> {
+    if (!this.settings.apiToken) {
+      throw new Error("Please set your Raindrop API token in settings");
+    }
+
+    const data = await this.client.getRaindrops(0, { perpage: 1 });
+    const bookmark = data.items[0];
+    if (!bookmark) {
+      throw new Error("No bookmarks found in Raindrop");
+    }
+
+    const collections = (await this.fetchCollectionTree()).collections;
+    const { collectionTitle, collectionInfo } = this.getNoteLocation(
+      bookmark,
+      collections
+    );
+
+    return this.generateNoteContent(bookmark, collectionTitle, {
+      ...collectionInfo,
+      template: (await this.loadNoteTemplate()) ?? DEFAULT_NOTE_TEMPLATE,
+    });
+  }
+
+  /**
+   * Make sure the keys the sync relies on are present even when a custom
+   * template leaves them out.
+   */
+  ensureRequiredFrontmatter(
+    content: string,
+    bookmark: RaindropBookmark,
+    lastSynced: string
+  ): string {
+    const required: Record<string, string> = {
+      raindrop_id: String(bookmark._id),
+      last_synced: lastSynced,
+      type: "raindrop-bookmark",
+    };
+
+    const frontmatter = parseFrontmatter(content);
+    const missing = Object.fromEntries(
+      Object.entries(required).filter(([key]) => !(key in frontmatter))
+    );
+
+    return Object.keys(missing).length === 0
+      ? content
+      : this.setFrontmatterValues(content, missing);
+  }
+
+  buildTemplateContext(
+    bookmark: RaindropBookmark,
+    collectionTitle: string = "Unsorted",
+    options: Partial<CollectionInfo> & {
+      localAnnotations?: Map<string, string>;
+    } = {}
+  ): Record<string, TemplateValue> {
+    const title = bookmark.title || "Untitled";
+
+    const obsidianTags = [
+      ...new Set((bookmark.tags || []).map((tag) => this.toObsidianTag(tag))),
+    ].filter((tag) => tag.length > 0); // Remove empty tags
+
+    // Add default tag for all Raindrop bookmarks
+    if (!obsidianTags.includes("raindrop-bookmarks")) {
+      obsidianTags.unshift("raindrop-bookmarks"); // Add at beginning
+    }
+
+    const inlineTags = obsidianTags.map((tag) => `#${tag}`);
+
+    // Format tags properly for Obsidian properties
+    let tagsYaml: string;
+    if (obsidianTags.length === 0) {
+      tagsYaml = "tags: []"; // Use inline format for empty arrays
+    } else {
+      tagsYaml = `tags:\n${obsidianTags.map((tag) => `  - ${tag}`).join("\n")}`;
+    }
+
+    const highlights = this.settings.syncHighlights
+      ? bookmark.highlights || []
+      : [];
+
+    const context: Record<string, TemplateValue> = {
+      id: bookmark._id,
+      title,
+      link: bookmark.link || "",
+      excerpt: bookmark.excerpt || "",
+      note: bookmark.note || "",
+      cover: bookmark.cover || "",
+      coverImage: this.getLocalImage(bookmark.cover),
+      images: this.getBookmarkImageUrls(bookmark)
+        .map((url) => this.getLocalImage(url))
+        .filter((path, index, paths) => path && paths.indexOf(path) === index),
+      domain: bookmark.domain || "Unknown",
+      type: bookmark.type || "",
+      created: bookmark.created,
+      lastUpdate: bookmark.lastUpdate,
+      added: new Date(bookmark.created).toLocaleDateString(),
+      lastSynced: new Date().toISOString(),
+      collection: collectionTitle,
+      collectionPath: options.collectionPath || collectionTitle,
+      collectionOwner: options.collectionOwner || "",
+      tags: obsidianTags,
+      tagsInline: inlineTags.join(" "),
+      tagsYaml,
+      raindropTags: bookmark.tags || [],
+      highlights: highlights.map((highlight) => ({
+        id: highlight._id,
+        blockId: `${HIGHLIGHT_BLOCK_PREFIX}${highlight._id}`,
+        text: highlight.text,
+        color: highlight.color || "yellow",
+        note:
+          options.localAnnotations?.get(highlight._id) ?? highlight.note ?? "",
+        created: highlight.created,
+      })),
+      highlightsSection: this.generateHighlightsSection(
+        highlights,
+        options.localAnnotations
+      ),
+    };
+
+    return context;
+  }
+
+  templateFilters(): Record<string, (value: string) => string> {
+    return {
+      yaml: (value) => this.escapeYamlValue(value),
+      lower: (value) => value.toLowerCase(),
+      upper: (value) => value.toUpperCase(),
+      trim: (value) => value.trim(),
+    };
+  }
+
+  generateNoteContent(
+    bookmark: RaindropBookmark,
+    collectionTitle: string = "Unsorted",
+    options: Partial<CollectionInfo> & {
+      localAnnotations?: Map<string, string>;
+      template?: string;
+    } = {}
+  ): string {
+    const context = this.buildTemplateContext(
+      bookmark,
+      collectionTitle,
+      options
+    );
+
+    const template =
+      options.template ?? this.noteTemplate ?? DEFAULT_NOTE_TEMPLATE;
+    const content = renderTemplate(template, context, this.templateFilters());
+
+    return this.ensureRequiredFrontmatter(
+      content,
+      bookmark,
+      context.lastSynced as string
+    );
+  }
+}
+
+const SYNC_ACTION_LABELS: Record<SyncAction, string> = {
+  push: "Push to Raindrop",
+  "create-remote": "Create in Raindrop",
+  "move-remote": "Move in Raindrop",
+  "rename-folder": "Rename folders",
+  create: "Create notes",
+  update: "Update notes",
+  "download-images": "Download images",
+  move: "Move notes",
+  delete: "Removed from Raindrop",
+};
+
+class SyncPlanModal extends Modal {
+  plan: SyncPlan;
+  resolveDecision: (approved: boolean) => void = () => {};
+  decided = false;
+  checkboxes: Array<{ item: SyncPlanItem; el: HTMLInputElement }> = [];
+
+  constructor(app: App, plan: SyncPlan) {
+    super(app);
+    this.plan = plan;
+  }
+
+  waitForDecision(): Promise<boolean> {
+    return new Promise((resolve) => {
+      this.resolveDecision = resolve;
+      this.open();
+    });
+  }
+
+  decide(approved: boolean) {
+    this.decided = true;
+    this.resolveDecision(approved);
+    this.close();
+  }
+
+  setAllSelected(selected: boolean) {
+    for (const { item, el } of this.checkboxes) {
+      item.selected = selected;
+      el.checked = selected;
+    }
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: "Sync Preview" });
+    contentEl.createEl("p", {
+      text: `${this.plan.items.length} change(s) planned (${
+        this.plan.mode === "incremental" ? "changes only" : "full sync"
+      }). Nothing has been written yet.`,
+    });
+
+    const actions: SyncAction[] = [
+      "push",
+      "create-remote",
+      "move-remote",
+      "rename-folder",
+      "create",
+      "update",
+      "download-images",
+      "move",
+      "delete",
+    ];
+    for (const action of actions) {
+      const items = this.plan.items.filter((item) => item.action === action);
+      if (items.length === 0) continue;
+
+      const groupEl = contentEl.createEl("details");
+      groupEl.createEl("summary", {
+        text: `${SYNC_ACTION_LABELS[action]} (${items.length})`,
+      });
+
+      for (const item of items) {
+        this.renderItem(groupEl, item);
+      }
+    }
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText("Select All").onClick(() => this.setAllSelected(true))
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Select None")
+          .onClick(() => this.setAllSelected(false))
+      )
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.decide(false))
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Apply Selected")
+          .setCta()
+          .onClick(() => this.decide(true))
+      );
+  }
+
+  renderItem(containerEl: HTMLElement, item: SyncPlanItem) {
+    const rowEl = containerEl.createDiv({
+      attr: { style: "margin: 0.5em 0 0.5em 1em;" },
+    });
+
+    const labelEl = rowEl.createEl("label");
+    const checkbox = labelEl.createEl("input", { type: "checkbox" });
+    checkbox.checked = item.selected;
+    checkbox.addEventListener("change", () => {
+      item.selected = checkbox.checked;
+    });
+    this.checkboxes.push({ item, el: checkbox });
+    labelEl.appendText(` ${item.title}`);
+
+    rowEl.createDiv({
+      text: item.oldPath ? `${item.oldPath} → ${item.path}` : item.path,
+      attr: { style: "color: var(--text-muted); font-size: var(--font-smaller);" },
+    });
+
+    const diffEl = rowEl.createEl("details");
+    diffEl.createEl("summary", { text: "Show changes" });
+    diffEl.addEventListener(
+      "toggle",
+      () => this.renderDiff(diffEl, item.before, item.after),
+      { once: true }
+    );
+  }
+
+  renderDiff(containerEl: HTMLElement, before: string, after: string) {
+    const preEl = containerEl.createEl("pre", {
+      attr: { style: "white-space: pre-wrap; font-size: var(--font-smaller);" },
+    });
+    const diff = diffLines(before, after);
+    const context = 2;
+    let previousHidden = false;
+
+    diff.forEach((line, index) => {
+      // Only show unchanged lines next to a change
+      if (line.type === "same") {
+        const nearChange = diff
+          .slice(Math.max(0, index - context), index + context + 1)
+          .some((other) => other.type !== "same");
+        if (!nearChange) {
+          if (!previousHidden) preEl.createDiv({ text: "  …" });
+          previousHidden = true;
+          return;
+        }
+      }
+      previousHidden = false;
+
+      const prefix =
+        line.type === "add" ? "+ " : line.type === "remove" ? "- " : "  ";
+      const color =
+        line.type === "add"
+          ? "var(--text-success)"
+          : line.type === "remove"
+          ? "var(--text-error)"
+          : "var(--text-muted)";
+      preEl.createDiv({
+        text: `${prefix}${line.text}`,
+        attr: { style: `color: ${color};` },
+      });
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    if (!this.decided) {
+      this.resolveDecision(false);
+    }
+  }
+}
+
+class NoteConflictModal extends Modal {
+  title: string;
+  conflict: NoteConflict;
+  resolveChoice: (note: string | null) => void = () => {};
+  decided = false;
+
+  constructor(app: App, title: string, conflict: NoteConflict) {
+    super(app);
+    this.title = title;
+    this.conflict = conflict;
+  }
+
+  waitForResolution(): Promise<string | null> {
+    return new Promise((resolve) => {
+      this.resolveChoice = resolve;
+      this.open();
+    });
+  }
+
+  choose(note: string | null) {
+    this.decided = true;
+    this.resolveChoice(note);
+    this.close();
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: "Notes Conflict" });
+    contentEl.createEl("p", {
+      text: `The Notes of "${this.title}" were edited in both Obsidian and Raindrop since the last sync.`,
+    });
+
+    const preStyle =
+      "white-space: pre-wrap; font-size: var(--font-smaller); max-height: 10em; overflow: auto;";
+    contentEl.createEl("h4", { text: "Obsidian" });
+    contentEl.createEl("pre", {
+      text: this.conflict.local,
+      attr: { style: preStyle },
+    });
+    contentEl.createEl("h4", { text: "Raindrop" });
+    contentEl.createEl("pre", {
+      text: this.conflict.remote,
+      attr: { style: preStyle },
+    });
+
+    contentEl.createEl("h4", { text: "Merged" });
+    const mergedEl = contentEl.createEl("textarea", {
+      attr: { rows: "10", style: "width: 100%; font-family: var(--font-monospace);" },
+    });
+    mergedEl.value = this.conflict.merged;
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText("Skip").onClick(() => this.choose(null))
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Keep Obsidian")
+          .onClick(() => this.choose(this.conflict.local))
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Keep Raindrop")
+          .onClick(() => this.choose(this.conflict.remote))
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Use Merged")
+          .setCta()
+          .onClick(() => {
+            if (mergedEl.value.includes(CONFLICT_MARKER_START)) {
+              new Notice("Remove the conflict markers first");
+              return;
+            }
+            this.choose(mergedEl.value.trim());
+          })
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    if (!this.decided) {
+      this.resolveChoice(null);
+    }
+  }
+}
+
+class ExportModal extends Modal {
+  plugin: RaindropSyncPlugin;
+  folderPath: string;
+  format: ExportFormat = "html";
+  outputPath: string;
+
+  constructor(app: App, plugin: RaindropSyncPlugin, folderPath: string) {
+    super(app);
+    this.plugin = plugin;
+    this.folderPath = folderPath;
+    this.outputPath = `${
+      normalizePath(folderPath).split("/").pop() || "Raindrop"
+    } Bookmarks.html`;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: "Export Bookmarks" });
+    contentEl.createEl("p", {
+      text: "Write the bookmark notes in a folder to a file that browsers and other bookmark tools can import.",
+    });
+
+    let folderText: TextComponent;
+    new Setting(contentEl)
+      .setName("Folder")
+      .setDesc("Bookmark notes in this folder and its subfolders are exported")
+      .addText((text) => {
+        folderText = text;
+        text.setValue(this.folderPath).onChange((value) => {
+          this.folderPath = value;
+        });
+      })
+      .addButton((button) =>
+        button.setButtonText("Browse").onClick(() => {
+          new FolderSuggestModal(this.app, this.plugin, (folder) => {
+            this.folderPath = folder.path;
+            folderText.setValue(folder.path);
+          }).open();
+        })
+      );
+
+    let outputText: TextComponent;
+    new Setting(contentEl)
+      .setName("Format")
+      .setDesc(
+        "HTML keeps collections as nested folders; CSV and JSON list the folder of each bookmark"
+      )
+      .addDropdown((dropdown) => {
+        const formats = Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[];
+        for (const format of formats) {
+          dropdown.addOption(format, EXPORT_FORMAT_LABELS[format]);
+        }
+        dropdown.setValue(this.format).onChange((value) => {
+          this.format = value as ExportFormat;
+          this.outputPath = `${this.outputPath.replace(
+            /\.(html|csv|json)$/i,
+            ""
+          )}.${this.format}`;
+          outputText.setValue(this.outputPath);
+        });
+      });
+
+    new Setting(contentEl)
+      .setName("Save As")
+      .setDesc("File in your vault; an existing file is replaced")
+      .addText((text) => {
+        outputText = text;
+        text.setValue(this.outputPath).onChange((value) => {
+          this.outputPath = value.trim();
+        });
+      });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.close())
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Export")
+          .setCta()
+          .onClick(async () => {
+            if (!this.outputPath) {
+              new Notice("Enter a file name to export to");
+              return;
+            }
+            try {
+              const count = await this.plugin.exportBookmarks(
+                this.folderPath,
+                this.format,
+                this.outputPath
+              );
+              new Notice(
+                `✓ Exported ${count} bookmarks to ${this.outputPath}`
+              );
+              this.close();
+            } catch (error: any) {
+              new Notice(`✗ Export failed: ${error.message || error}`);
+              console.error("Export failed:", error);
+            }
+          })
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+class ConfirmModal extends Modal {
+  title: string;
+  message: string;
+  confirmText: string;
+  resolveChoice: (confirmed: boolean) => void = () => {};
+  confirmed = false;
+
+  constructor(app: App, title: string, message: string, confirmText: string) {
+    super(app);
+    this.title = title;
+    this.message = message;
+    this.confirmText = confirmText;
+  }
+
+  waitForConfirmation(): Promise<boolean> {
+    return new Promise((resolve) => {
+      this.resolveChoice = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: this.title });
+    contentEl.createEl("p", { text: this.message });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.close())
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(this.confirmText)
+          .setWarning()
+          .onClick(() => {
+            this.confirmed = true;
+            this.close();
+          })
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.resolveChoice(this.confirmed);
+  }
+}
+
+class SyncHistoryView extends ItemView {
+  plugin: RaindropSyncPlugin;
+
+  constructor(leaf: WorkspaceLeaf, plugin: RaindropSyncPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return SYNC_HISTORY_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return "Raindrop Sync History";
+  }
+
+  getIcon() {
+    return "history";
+  }
+
+  async onOpen() {
+    this.render();
+  }
+
+  render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h4", { text: "Sync History" });
+
+    const runs = [...this.plugin.syncState.syncHistory].reverse();
+    if (runs.length === 0) {
+      contentEl.createEl("p", { text: "No syncs recorded yet." });
+      return;
+    }
+    for (const run of runs) this.renderRun(contentEl, run);
+  }
+
+  renderRun(containerEl: HTMLElement, run: SyncRun) {
+    const counts = new Map<SyncRunResult, number>();
+    for (const item of run.items) {
+      counts.set(item.result, (counts.get(item.result) ?? 0) + 1);
+    }
+    const summary = [...counts]
+      .map(([result, count]) => `${SYNC_RUN_RESULT_LABELS[result]}: ${count}`)
+      .join(", ");
+
+    const runEl = containerEl.createEl("details", {
+      attr: { style: "margin-bottom: 0.5em;" },
+    });
+    const status =
+      run.status === "completed"
+        ? counts.has("failed")
+          ? "⚠️"
+          : "✓"
+        : run.status === "failed"
+        ? "✗"
+        : run.status === "cancelled"
+        ? "⏹"
+        : "🔄";
+    runEl.createEl("summary", {
+      text: `${status} ${new Date(run.startedAt).toLocaleString()} · ${
+        summary || "No changes"
+      }`,
+    });
+
+    const seconds = run.finishedAt
+      ? Math.round(
+          (new Date(run.finishedAt).getTime() -
+            new Date(run.startedAt).getTime()) /
+            1000
+        )
+      : null;
+    const details = [
+      run.mode === "incremental" ? "Changes only" : "Full sync",
+      `started ${run.trigger === "manual" ? "manually" : `on ${run.trigger}`}`,
+      run.status,
+    ];
+    if (seconds !== null) details.push(`${seconds}s`);
+    if (run.skippedCount > 0) details.push(`${run.skippedCount} unchanged`);
+    if (run.retryOf) {
+      details.push(`retry of ${new Date(run.retryOf).toLocaleString()}`);
+    }
+    const mutedStyle =
+      "color: var(--text-muted); font-size: var(--font-smaller);";
+    runEl.createDiv({
+      text: details.join(" · "),
+      attr: { style: mutedStyle },
+    });
+    if (run.error) {
+      runEl.createDiv({
+        text: run.error,
+        attr: { style: "color: var(--text-error);" },
+      });
+    }
+
+    if (counts.has("failed")) {
+      new Setting(runEl).addButton((button) =>
+        button
+          .setButtonText("Retry Failed Items")
+          .setDisabled(this.plugin.isSyncing)
+          .onClick(async () => {
+            await this.plugin.retryFailedItems(run);
+          })
+      );
+    }
+
+    for (const item of run.items) {
+      const rowEl = runEl.createDiv({
+        attr: { style: "margin: 0.4em 0 0.4em 1em;" },
+      });
+      rowEl.appendText(`${SYNC_RUN_RESULT_LABELS[item.result]}: `);
+
+      const file = item.path
+        ? this.app.vault.getAbstractFileByPath(item.path)
+        : null;
+      if (file instanceof TFile) {
+        const linkEl = rowEl.createEl("a", { text: item.title, href: "#" });
+        linkEl.addEventListener("click", (event) => {
+          event.preventDefault();
+          this.app.workspace.getLeaf(false).openFile(file);
+        });
+      } else {
+        rowEl.appendText(item.title);
+      }
+
+      if (item.path) {
+        rowEl.createDiv({ text: item.path, attr: { style: mutedStyle } });
+      }
+      if (item.error) {
+        rowEl.createDiv({
+          text: item.error,
+          attr: {
+            style: "color: var(--text-error); font-size: var(--font-smaller);",
+          },
+        });
+      }
+    }
+
+    if (run.omittedCount > 0) {
+      runEl.createDiv({
+        text: `… and ${run.omittedCount} more`,
+        attr: { style: `margin-left: 1em; ${mutedStyle}` },
+      });
+    }
+  }
+}
+
+class FileSuggestModal extends FuzzySuggestModal<TFile> {
+  onChoose: (file: TFile) => void;
+
+  constructor(app: App, onChoose: (file: TFile) => void) {
+    super(app);
+    this.onChoose = onChoose;
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getMarkdownFiles();
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile): void {
+    this.onChoose(file);
+  }
+}
+
+class TemplatePreviewModal extends Modal {
+  plugin: RaindropSyncPlugin;
+
+  constructor(app: App, plugin: RaindropSyncPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: "Note Template Preview" });
+
+    const statusEl = contentEl.createEl("p", {
+      text: "Rendering with your most recent bookmark...",
+    });
+    const previewEl = contentEl.createEl("pre", {
+      attr: { style: "white-space: pre-wrap; user-select: text;" },
+    });
+
+    try {
+      previewEl.setText(await this.plugin.renderTemplatePreview());
+      statusEl.setText(
+        this.plugin.settings.noteTemplatePath
+          ? `Template: ${this.plugin.settings.noteTemplatePath}`
+          : "Template: built-in layout"
+      );
+    } catch (error: any) {
+      console.error("Template preview failed:", error);
+      statusEl.setText(`✗ ${error.message || error}`);
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+class CollectionPickerModal extends Modal {
+  plugin: RaindropSyncPlugin;
+  onSave: () => void;
+  selection: Map<number, SyncCollectionSelection>;
+
+  constructor(app: App, plugin: RaindropSyncPlugin, onSave: () => void) {
+    super(app);
+    this.plugin = plugin;
+    this.onSave = onSave;
+    this.selection = new Map(
+      plugin.settings.syncCollections.map((selection) => [
+        selection.id,
+        { ...selection },
+      ])
+    );
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: "Collections to Sync" });
+    const statusEl = contentEl.createEl("p", { text: "Loading collections..." });
+
+    let tree: CollectionTree;
+    try {
+      tree = await this.plugin.fetchCollectionTree();
+    } catch (error) {
+      statusEl.setText(`✗ ${describeApiError(error)}`);
+      return;
+    }
+    statusEl.setText(
+      "Pick the collections to sync. Nothing selected syncs everything."
+    );
+
+    const treeEl = contentEl.createDiv();
+    if (this.plugin.settings.unsortedHandling === "folder") {
+      this.renderCollection(treeEl, UNSORTED_COLLECTION_ID, "Unsorted", 0, false);
+    }
+    let currentGroup: string | null = null;
+    tree.walk((collection, depth, group) => {
+      if (group !== currentGroup) {
+        treeEl.createEl("h4", { text: group });
+        currentGroup = group;
+      }
+      this.renderCollection(
+        treeEl,
+        collection._id,
+        collection.title,
+        depth,
+        tree.children(collection._id).length > 0
+      );
+    });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.close())
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Save")
+          .setCta()
+          .onClick(async () => {
+            this.plugin.settings.syncCollections = [...this.selection.values()];
+            await this.plugin.saveSettings();
+            this.onSave();
+            this.close();
+          })
+      );
+  }
+
+  renderCollection(
+    containerEl: HTMLElement,
+    id: number,
+    title: string,
+    depth: number,
+    hasChildren: boolean
+  ) {
+    const rowEl = containerEl.createDiv({
+      attr: { style: `margin: 0.25em 0 0.25em ${depth * 1.5}em;` },
+    });
+
+    const labelEl = rowEl.createEl("label");
+    const checkbox = labelEl.createEl("input", { type: "checkbox" });
+    checkbox.checked = this.selection.has(id);
+    labelEl.appendText(` ${title}`);
+
+    if (!hasChildren) {
+      checkbox.addEventListener("change", () => {
+        if (checkbox.checked) {
+          this.selection.set(id, { id, includeChildren: false });
+        } else {
+          this.selection.delete(id);
+        }
+      });
+      return;
+    }
+
+    const childrenLabelEl = rowEl.createEl("label", {
+      attr: {
+        style: "margin-left: 1em; color: var(--text-muted); font-size: var(--font-smaller);",
+      },
+    });
+    const childrenCheckbox = childrenLabelEl.createEl("input", {
+      type: "checkbox",
+    });
+    childrenCheckbox.checked = this.selection.get(id)?.includeChildren ?? true;
+    childrenCheckbox.disabled = !checkbox.checked;
+    childrenLabelEl.appendText(" with subcollections");
+
+    checkbox.addEventListener("change", () => {
+      childrenCheckbox.disabled = !checkbox.checked;
+      if (checkbox.checked) {
+        this.selection.set(id, {
+          id,
+          includeChildren: childrenCheckbox.checked,
+        });
+      } else {
+        this.selection.delete(id);
+      }
+    });
+    childrenCheckbox.addEventListener("change", () => {
+      const selection = this.selection.get(id);
+      if (selection) selection.includeChildren = childrenCheckbox.checked;
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  plugin: RaindropSyncPlugin;
+  onChoose: (folder: TFolder) => void;
+
+  constructor(
+    app: App,
+    plugin: RaindropSyncPlugin,
+    onChoose: (folder: TFolder) => void
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.onChoose = onChoose;
+  }
+
+  getItems(): TFolder[] {
+    const folders: TFolder[] = [];
+    const abstractFiles = this.app.vault.getAllLoadedFiles();
+    abstractFiles.forEach((file) => {
+      if (file instanceof TFolder) {
+        folders.push(file);
+      }
+    });
+    return folders;
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onChoose(folder);
+  }
+}
+
+class RaindropSyncSettingTab extends PluginSettingTab {
+  plugin: RaindropSyncPlugin;
+
+  constructor(app: App, plugin: RaindropSyncPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  getAllFolders(): string[] {
+    const folders: string[] = [];
+    const abstractFiles = this.app.vault.getAllLoadedFiles();
+    abstractFiles.forEach((file) => {
+      if (file instanceof TFolder) {
+        folders.push(file.path);
+      }
+    });
+    return folders.sort();
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    containerEl.createEl("h2", { text: "Raindrop Sync Settings" });
+
+    // API Token
+    new Setting(containerEl)
+      .setName("Raindrop API Token")
+      .setDesc(
+        "Get your token from https://app.raindrop.io/settings/integrations"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Enter your API token")
+          .setValue(this.plugin.settings.apiToken)
+          .onChange(async (value) => {
+            this.plugin.settings.apiToken = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Test Connection Button
+    new Setting(containerEl)
+      .setName("Test Connection")
+      .setDesc("Verify your API token is working")
+      .addButton((button) =>
+        button.setButtonText("Test Connection").onClick(async () => {
+          await this.plugin.testConnection();
+        })
+      );
+
+    // API Base URL
+    new Setting(containerEl)
+      .setName("API Base URL")
+      .setDesc(
+        "Raindrop REST API address. Only change this to point the plugin at a mock server for development."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.apiBaseUrl)
+          .setValue(this.plugin.settings.apiBaseUrl)
+          .onChange(async (value) => {
+            this.plugin.settings.apiBaseUrl =
+              value.trim() || DEFAULT_SETTINGS.apiBaseUrl;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Resource Folder with enhanced UI and autocomplete
+    const datalistId = "folder-suggestions-" + Date.now();
+    const folderSetting = new Setting(containerEl)
+      .setName("Bookmark Storage Folder")
+      .setDesc(
+        "Choose where your Raindrop bookmarks will be saved as Obsidian notes"
+      )
+      .addText((text) => {
+        const inputEl = text.inputEl;
+
+        text
+          .setPlaceholder("e.g., Resources or Bookmarks/Raindrop")
+          .setValue(this.plugin.settings.resourceFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.resourceFolder = value;
+            await this.plugin.saveSettings();
+          });
+
+        // Add datalist for autocomplete suggestions
+        inputEl.setAttribute("list", datalistId);
+
+        // Create datalist element with suggestions
+        const datalist = containerEl.createEl("datalist", {
+          attr: { id: datalistId },
+        });
+
+        // Add existing folders
+        const folders = this.getAllFolders();
+        folders.forEach((folder) => {
+          datalist.createEl("option", { value: folder });
+        });
+
+        // Add common folder name suggestions
+        const commonSuggestions = [
+          "Resources",
+          "Bookmarks",
+          "Bookmarks/Raindrop",
+          "04 Resources/Bookmarks",
+          "02 Projects/Web Research",
+        ];
+
+        commonSuggestions.forEach((suggestion) => {
+          if (!folders.includes(suggestion)) {
+            datalist.createEl("option", { value: suggestion });
+          }
+        });
+      })
+      .addButton((button) =>
+        button
+          .setButtonText("Browse")
+          .setTooltip("Choose from existing folders")
+          .onClick(() => {
+            const modal = new FolderSuggestModal(
+              this.app,
+              this.plugin,
+              async (folder) => {
+                this.plugin.settings.resourceFolder = folder.path;
+                await this.plugin.saveSettings();
+                this.display(); // Refresh the settings view
+              }
+            );
+            modal.open();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Create Folder")
+          .setTooltip("Create the folder if it doesn't exist")
+          .onClick(async () => {
+            try {
+              await this.plugin.ensureFolderExists(
+                this.plugin.settings.resourceFolder
+              );
+              new Notice(
+                `✓ Folder "${this.plugin.settings.resourceFolder}" is ready!`
+              );
+            } catch (error) {
+              new Notice("✗ Failed to create folder. Check the path.");
+              console.error(error);
+            }
+          })
+      );
+
+    // Auto Sync Toggle
+    new Setting(containerEl)
+      .setName("Auto Sync")
+      .setDesc("Automatically sync at regular intervals")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.autoSync)
+          .onChange(async (value) => {
+            this.plugin.settings.autoSync = value;
+            await this.plugin.saveSettings();
+            this.plugin.scheduleAutoSync();
+          })
+      );
+
+    // Sync Interval
+    new Setting(containerEl)
+      .setName("Sync Interval")
+      .setDesc("Minutes between automatic syncs")
+      .addText((text) =>
+        text
+          .setPlaceholder("30")
+          .setValue(String(this.plugin.settings.syncInterval))
+          .onChange(async (value) => {
+            const interval = parseInt(value);
+            if (!isNaN(interval) && interval > 0) {
+              this.plugin.settings.syncInterval = interval;
+              await this.plugin.saveSettings();
+              this.plugin.scheduleAutoSync();
+            }
+          })
+      );
+
+    // Incremental Sync Toggle
+    new Setting(containerEl)
+      .setName("Incremental Sync")
+      .setDesc(
+        "Only fetch bookmarks changed since the last sync. Deleted bookmarks are detected by periodic full syncs."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.incrementalSync)
+          .onChange(async (value) => {
+            this.plugin.settings.incrementalSync = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Full Sync Interval
+    new Setting(containerEl)
+      .setName("Full Sync Interval")
+      .setDesc(
+        "Hours between full reconciliations when incremental sync is on (0 = only when running the Full Sync command)"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("24")
+          .setValue(String(this.plugin.settings.fullSyncIntervalHours))
+          .onChange(async (value) => {
+            const hours = parseInt(value);
+            if (!isNaN(hours) && hours >= 0) {
+              this.plugin.settings.fullSyncIntervalHours = hours;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    // Sync on Startup Toggle
+    new Setting(containerEl)
+      .setName("Sync on Startup")
+      .setDesc("Run a sync when Obsidian starts")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.syncOnStartup)
+          .onChange(async (value) => {
+            this.plugin.settings.syncOnStartup = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Section divider
+    containerEl.createEl("h3", { text: "Sync Options" });
+
+    // Test Mode Toggle
+    new Setting(containerEl)
+      .setName("Test Mode")
+      .setDesc(
+        "Enable test mode to sync only a limited number of items (useful for testing)"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.testMode)
+          .onChange(async (value) => {
+            this.plugin.settings.testMode = value;
+            // Test mode only saw part of the library
+            if (!value) this.plugin.syncState.lastUpdateCursor = null;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Test Mode Limit
+    new Setting(containerEl)
+      .setName("Test Mode Limit")
+      .setDesc("Number of items to sync in test mode (default: 50)")
+      .addText((text) =>
+        text
+          .setPlaceholder("50")
+          .setValue(String(this.plugin.settings.testModeLimit))
+          .onChange(async (value) => {
+            const limit = parseInt(value);
+            if (!isNaN(limit) && limit > 0) {
+              this.plugin.settings.testModeLimit = limit;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    // Collection Folders Toggle
+    new Setting(containerEl)
+      .setName("Use Collection Folders")
+      .setDesc(
+        "Organize bookmarks into folders matching your Raindrop collections (e.g., Resources/Design, Resources/Development)"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.useCollectionFolders)
+          .onChange(async (value) => {
+            this.plugin.settings.useCollectionFolders = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Unsorted Bookmarks
+    new Setting(containerEl)
+      .setName("Unsorted Bookmarks")
+      .setDesc("Bookmarks in Raindrop's Unsorted collection")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("folder", "Sync to a folder")
+          .addOption("ignore", "Don't sync")
+          .setValue(this.plugin.settings.unsortedHandling)
+          .onChange(async (value) => {
+            this.plugin.settings.unsortedHandling = value as UnsortedHandling;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.unsortedHandling === "folder") {
+      new Setting(containerEl)
+        .setName("Unsorted Folder")
+        .setDesc("Folder for Unsorted bookmarks, inside the storage folder")
+        .addText((text) =>
+          text
+            .setPlaceholder("Unsorted")
+            .setValue(this.plugin.settings.unsortedFolder)
+            .onChange(async (value) => {
+              this.plugin.settings.unsortedFolder = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // Shared Collections Folder
+    new Setting(containerEl)
+      .setName("Shared Collections Folder")
+      .setDesc(
+        "Collections other people share with you are synced here, in a subfolder named after the owner. The owner is also recorded as collection_owner."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Shared")
+          .setValue(this.plugin.settings.sharedFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.sharedFolder = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Collections to Sync
+    const selectedCollections = this.plugin.settings.syncCollections;
+    new Setting(containerEl)
+      .setName("Collections to Sync")
+      .setDesc(
+        selectedCollections.length === 0
+          ? "All collections are synced"
+          : `${selectedCollections.length} collection(s) selected. Notes of bookmarks outside the selection are left alone.`
+      )
+      .addButton((button) =>
+        button.setButtonText("Choose").onClick(() => {
+          new CollectionPickerModal(this.app, this.plugin, () =>
+            this.display()
+          ).open();
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Sync All")
+          .setDisabled(selectedCollections.length === 0)
+          .onClick(async () => {
+            this.plugin.settings.syncCollections = [];
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
 
-    containerEl.createEl("h2", { text: "Raindrop Sync Settings" });
+    // Excluded Tags
+    new Setting(containerEl)
+      .setName("Excluded Tags")
+      .setDesc("Comma-separated Raindrop tags; bookmarks with any of them are not synced")
+      .addText((text) =>
+        text
+          .setPlaceholder("personal, private")
+          .setValue(this.plugin.settings.excludedTags.join(", "))
+          .onChange(async (value) => {
+            this.plugin.settings.excludedTags = value
+              .split(",")
+              .map((tag) => tag.trim())
+              .filter((tag) => tag.length > 0);
+            await this.plugin.saveSettings();
+          })
+      );
 
-    // API Token
+    // Search Filter
     new Setting(containerEl)
-      .setName("Raindrop API Token")
+      .setName("Search Filter")
       .setDesc(
-        "Get your token from https://app.raindrop.io/settings/integrations"
+        "Only sync bookmarks matching this Raindrop search, e.g. #work or type:article. Leave empty to sync everything."
       )
       .addText((text) =>
         text
-          .setPlaceholder("Enter your API token")
-          .setValue(this.plugin.settings.apiToken)
+          .setPlaceholder("#work")
+          .setValue(this.plugin.settings.searchQuery)
           .onChange(async (value) => {
-            this.plugin.settings.apiToken = value;
+            this.plugin.settings.searchQuery = value;
             await this.plugin.saveSettings();
           })
       );
 
-    // Test Connection Button
+    // File Name Template
     new Setting(containerEl)
-      .setName("Test Connection")
-      .setDesc("Verify your API token is working")
-      .addButton((button) =>
-        button.setButtonText("Test Connection").onClick(async () => {
-          await this.plugin.testConnection();
-        })
+      .setName("File Name Template")
+      .setDesc(
+        "Name for bookmark notes, using the note template placeholders, e.g. {{created:YYYY-MM-DD}} {{title}}, {{domain}} - {{title}} or {{id}}. Existing notes are renamed on the next sync."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("{{title}}")
+          .setValue(this.plugin.settings.fileNameTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.fileNameTemplate = value;
+            await this.plugin.saveSettings();
+          })
       );
 
-    // Resource Folder with enhanced UI and autocomplete
-    const datalistId = "folder-suggestions-" + Date.now();
-    const folderSetting = new Setting(containerEl)
-      .setName("Bookmark Storage Folder")
+    // Folder Template
+    new Setting(containerEl)
+      .setName("Folder Template")
       .setDesc(
-        "Choose where your Raindrop bookmarks will be saved as Obsidian notes"
+        "Subfolder inside the storage folder, e.g. {{created:YYYY}}/{{created:MM}}, {{domain}} or {{type}}. Leave empty to use collection folders. Existing notes are moved on the next sync."
       )
-      .addText((text) => {
-        const inputEl = text.inputEl;
-
+      .addText((text) =>
         text
-          .setPlaceholder("e.g., Resources or Bookmarks/Raindrop")
-          .setValue(this.plugin.settings.resourceFolder)
+          .setPlaceholder("{{collectionPath}}")
+          .setValue(this.plugin.settings.folderTemplate)
           .onChange(async (value) => {
-            this.plugin.settings.resourceFolder = value;
+            this.plugin.settings.folderTemplate = value;
             await this.plugin.saveSettings();
-          });
-
-        // Add datalist for autocomplete suggestions
-        inputEl.setAttribute("list", datalistId);
-
-        // Create datalist element with suggestions
-        const datalist = containerEl.createEl("datalist", {
-          attr: { id: datalistId },
-        });
-
-        // Add existing folders
-        const folders = this.getAllFolders();
-        folders.forEach((folder) => {
-          datalist.createEl("option", { value: folder });
-        });
-
-        // Add common folder name suggestions
-        const commonSuggestions = [
-          "Resources",
-          "Bookmarks",
-          "Bookmarks/Raindrop",
-          "04 Resources/Bookmarks",
-          "02 Projects/Web Research",
-        ];
+          })
+      );
 
-        commonSuggestions.forEach((suggestion) => {
-          if (!folders.includes(suggestion)) {
-            datalist.createEl("option", { value: suggestion });
-          }
-        });
-      })
+    // Note Template
+    new Setting(containerEl)
+      .setName("Note Template")
+      .setDesc(
+        "Markdown file used to render bookmark notes. Leave empty for the built-in layout. See the README for available placeholders."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("e.g., Templates/Raindrop Bookmark.md")
+          .setValue(this.plugin.settings.noteTemplatePath)
+          .onChange(async (value) => {
+            this.plugin.settings.noteTemplatePath = value;
+            await this.plugin.saveSettings();
+          })
+      )
       .addButton((button) =>
         button
           .setButtonText("Browse")
-          .setTooltip("Choose from existing folders")
+          .setTooltip("Choose a template file")
           .onClick(() => {
-            const modal = new FolderSuggestModal(
-              this.app,
-              this.plugin,
-              async (folder) => {
-                this.plugin.settings.resourceFolder = folder.path;
-                await this.plugin.saveSettings();
-                this.display(); // Refresh the settings view
-              }
-            );
-            modal.open();
+            new FileSuggestModal(this.app, async (file) => {
+              this.plugin.settings.noteTemplatePath = file.path;
+              await this.plugin.saveSettings();
+              this.display();
+            }).open();
           })
       )
       .addButton((button) =>
         button
-          .setButtonText("Create Folder")
-          .setTooltip("Create the folder if it doesn't exist")
+          .setButtonText("Create Template")
+          .setTooltip("Write the built-in layout to the template path")
           .onClick(async () => {
             try {
-              await this.plugin.ensureFolderExists(
-                this.plugin.settings.resourceFolder
-              );
-              new Notice(
-                `✓ Folder "${this.plugin.settings.resourceFolder}" is ready!`
-              );
-            } catch (error) {
-              new Notice("✗ Failed to create folder. Check the path.");
+              const file = await this.plugin.createDefaultTemplateFile();
+              new Notice(`✓ Template ready at "${file.path}"`);
+            } catch (error: any) {
+              new Notice(`✗ ${error.message || "Failed to create template"}`);
               console.error(error);
             }
           })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Preview")
+          .setTooltip("Render the template with a real bookmark")
+          .onClick(() => {
+            new TemplatePreviewModal(this.app, this.plugin).open();
+          })
       );
 
-    // Auto Sync Toggle
+    // Notes Block
     new Setting(containerEl)
-      .setName("Auto Sync")
-      .setDesc("Automatically sync at regular intervals")
+      .setName("Notes Block")
+      .setDesc(
+        "Managed block whose text is synced with the Raindrop note. Templates mark blocks with <!-- raindrop:name --> … <!-- /raindrop:name -->; only those blocks are rewritten on sync."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("note")
+          .setValue(this.plugin.settings.noteBlock)
+          .onChange(async (value) => {
+            this.plugin.settings.noteBlock = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Highlights Toggle
+    new Setting(containerEl)
+      .setName("Sync Highlights")
+      .setDesc(
+        "Add a Highlights section with your Raindrop highlights. Annotations written under a highlight's Note line are synced back when bidirectional sync is on."
+      )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.autoSync)
+          .setValue(this.plugin.settings.syncHighlights)
           .onChange(async (value) => {
-            this.plugin.settings.autoSync = value;
+            this.plugin.settings.syncHighlights = value;
             await this.plugin.saveSettings();
           })
       );
 
-    // Sync Interval
+    // Download Images
     new Setting(containerEl)
-      .setName("Sync Interval")
-      .setDesc("Minutes between automatic syncs")
-      .addText((text) =>
-        text
-          .setPlaceholder("30")
-          .setValue(String(this.plugin.settings.syncInterval))
+      .setName("Download Images")
+      .setDesc(
+        "Save cover and media images into the vault, embed them in the note and set its cover property. Identical images are stored once."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.downloadImages)
           .onChange(async (value) => {
-            const interval = parseInt(value);
-            if (!isNaN(interval) && interval > 0) {
-              this.plugin.settings.syncInterval = interval;
-              await this.plugin.saveSettings();
-            }
+            this.plugin.settings.downloadImages = value;
+            await this.plugin.saveSettings();
+            this.display();
           })
       );
 
-    // Section divider
-    containerEl.createEl("h3", { text: "Sync Options" });
+    if (this.plugin.settings.downloadImages) {
+      new Setting(containerEl)
+        .setName("Attachments Folder")
+        .setDesc("Where downloaded images are saved")
+        .addText((text) =>
+          text
+            .setPlaceholder("Raindrop Attachments")
+            .setValue(this.plugin.settings.attachmentsFolder)
+            .onChange(async (value) => {
+              this.plugin.settings.attachmentsFolder = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
 
-    // Test Mode Toggle
+    // Deleted Bookmarks
     new Setting(containerEl)
-      .setName("Test Mode")
+      .setName("Deleted Bookmarks")
       .setDesc(
-        "Enable test mode to sync only a limited number of items (useful for testing)"
+        "What to do with notes whose bookmark was deleted in Raindrop (checked during full syncs)"
       )
-      .addToggle((toggle) =>
-        toggle
-          .setValue(this.plugin.settings.testMode)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("archive", "Move to archive folder")
+          .addOption("trash", "Move to Obsidian trash")
+          .addOption("mark", "Keep, mark raindrop_deleted: true")
+          .addOption("delete", "Delete permanently")
+          .setValue(this.plugin.settings.deletedBookmarkAction)
           .onChange(async (value) => {
-            this.plugin.settings.testMode = value;
+            this.plugin.settings.deletedBookmarkAction =
+              value as DeletedBookmarkAction;
             await this.plugin.saveSettings();
+            this.display();
           })
       );
 
-    // Test Mode Limit
+    // Trashed Bookmarks
     new Setting(containerEl)
-      .setName("Test Mode Limit")
-      .setDesc("Number of items to sync in test mode (default: 50)")
+      .setName("Trashed Bookmarks")
+      .setDesc("Bookmarks moved to Raindrop's trash")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("deleted", "Handle like deleted bookmarks")
+          .addOption("archive", "Move notes to archive folder")
+          .addOption("folder", "Sync to a folder")
+          .addOption("ignore", "Leave notes alone")
+          .setValue(this.plugin.settings.trashHandling)
+          .onChange(async (value) => {
+            this.plugin.settings.trashHandling = value as TrashHandling;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.trashHandling === "folder") {
+      new Setting(containerEl)
+        .setName("Trash Folder")
+        .setDesc("Folder for trashed bookmarks, inside the storage folder")
+        .addText((text) =>
+          text
+            .setPlaceholder("Trash")
+            .setValue(this.plugin.settings.trashFolder)
+            .onChange(async (value) => {
+              this.plugin.settings.trashFolder = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    if (
+      this.plugin.settings.deletedBookmarkAction === "archive" ||
+      this.plugin.settings.trashHandling === "archive"
+    ) {
+      new Setting(containerEl)
+        .setName("Archive Folder")
+        .setDesc("Where notes for deleted bookmarks are moved")
+        .addText((text) =>
+          text
+            .setPlaceholder("Raindrop Archive")
+            .setValue(this.plugin.settings.archiveFolder)
+            .onChange(async (value) => {
+              this.plugin.settings.archiveFolder = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // Deletion Safety Threshold
+    new Setting(containerEl)
+      .setName("Deletion Safety Threshold")
+      .setDesc(
+        "Skip cleanup when more than this percentage of synced notes would be removed in one sync (100 = never skip)"
+      )
       .addText((text) =>
         text
-          .setPlaceholder("50")
-          .setValue(String(this.plugin.settings.testModeLimit))
+          .setPlaceholder("25")
+          .setValue(String(this.plugin.settings.deletionSafetyThreshold))
           .onChange(async (value) => {
-            const limit = parseInt(value);
-            if (!isNaN(limit) && limit > 0) {
-              this.plugin.settings.testModeLimit = limit;
+            const threshold = parseInt(value);
+            if (!isNaN(threshold) && threshold >= 0 && threshold <= 100) {
+              this.plugin.settings.deletionSafetyThreshold = threshold;
               await this.plugin.saveSettings();
             }
           })
       );
 
-    // Collection Folders Toggle
+    // Bidirectional Sync Toggle
     new Setting(containerEl)
-      .setName("Use Collection Folders")
+      .setName("Bidirectional Sync")
       .setDesc(
-        "Organize bookmarks into folders matching your Raindrop collections (e.g., Resources/Design, Resources/Development)"
+        "Sync changes back to Raindrop when you edit the Description section in Obsidian notes"
       )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.useCollectionFolders)
+          .setValue(this.plugin.settings.bidirectionalSync)
           .onChange(async (value) => {
-            this.plugin.settings.useCollectionFolders = value;
+            this.plugin.settings.bidirectionalSync = value;
             await this.plugin.saveSettings();
           })
       );
 
-    // Bidirectional Sync Toggle
+    // Create Bookmarks From Notes
     new Setting(containerEl)
-      .setName("Bidirectional Sync")
+      .setName("Create Bookmarks From Notes")
       .setDesc(
-        "Sync changes back to Raindrop when you edit the Description section in Obsidian notes"
+        "With bidirectional sync on, notes that have a url property but no raindrop_id are added to Raindrop. Applies to notes in the storage folder (collection taken from the folder) and to notes anywhere with the sync marker property."
       )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.bidirectionalSync)
+          .setValue(this.plugin.settings.createBookmarksFromNotes)
           .onChange(async (value) => {
-            this.plugin.settings.bidirectionalSync = value;
+            this.plugin.settings.createBookmarksFromNotes = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Sync Marker Property
+    new Setting(containerEl)
+      .setName("Sync Marker Property")
+      .setDesc(
+        "Notes outside the storage folder are synced when this frontmatter property is true (e.g. raindrop: true)"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("raindrop")
+          .setValue(this.plugin.settings.syncMarkerProperty)
+          .onChange(async (value) => {
+            this.plugin.settings.syncMarkerProperty = value.trim();
             await this.plugin.saveSettings();
           })
       );
+
+    // Sync History
+    containerEl.createEl("h3", { text: "Sync History" });
+
+    new Setting(containerEl)
+      .setName("Runs to Keep")
+      .setDesc(
+        "Number of recent syncs kept in the history, with what each one did to every note"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("50")
+          .setValue(String(this.plugin.settings.historyMaxRuns))
+          .onChange(async (value) => {
+            const runs = parseInt(value);
+            if (!isNaN(runs) && runs >= 1) {
+              this.plugin.settings.historyMaxRuns = runs;
+              await this.plugin.saveSettings();
+            }
+          })
+      )
+      .addButton((button) =>
+        button.setButtonText("Open History").onClick(async () => {
+          await this.plugin.openSyncHistory();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Days to Keep")
+      .setDesc(
+        "Syncs older than this are dropped from the history (0 = no limit)"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("30")
+          .setValue(String(this.plugin.settings.historyMaxDays))
+          .onChange(async (value) => {
+            const days = parseInt(value);
+            if (!isNaN(days) && days >= 0) {
+              this.plugin.settings.historyMaxDays = days;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    // Tag Mappings
+    containerEl.createEl("h3", { text: "Tag Mappings" });
+
+    new Setting(containerEl).setDesc(
+      "How each Raindrop tag is written in Obsidian. Mappings are added automatically as new tags are synced. Point several Raindrop tags at the same Obsidian tag to merge them, and use / for nested tags (e.g. dev/frontend). Run Full Sync to apply changes to existing notes."
+    );
+
+    const tagMappings = this.plugin.settings.tagMappings;
+    for (const raindropTag of Object.keys(tagMappings).sort((a, b) =>
+      a.localeCompare(b)
+    )) {
+      new Setting(containerEl)
+        .setName(raindropTag)
+        .addText((text) =>
+          text
+            .setPlaceholder(this.plugin.defaultObsidianTag(raindropTag))
+            .setValue(tagMappings[raindropTag])
+            .onChange(async (value) => {
+              const obsidianTag = normalizeObsidianTag(value);
+              if (!obsidianTag) return;
+              tagMappings[raindropTag] = obsidianTag;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Remove mapping")
+            .onClick(async () => {
+              delete tagMappings[raindropTag];
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    }
+
+    let newRaindropTag = "";
+    let newObsidianTag = "";
+    new Setting(containerEl)
+      .setName("Add Mapping")
+      .setDesc("Raindrop tag and the Obsidian tag it should become")
+      .addText((text) =>
+        text.setPlaceholder("Raindrop tag").onChange((value) => {
+          newRaindropTag = value.trim();
+        })
+      )
+      .addText((text) =>
+        text.setPlaceholder("obsidian/tag").onChange((value) => {
+          newObsidianTag = normalizeObsidianTag(value);
+        })
+      )
+      .addButton((button) =>
+        button.setButtonText("Add").onClick(async () => {
+          if (!newRaindropTag || !newObsidianTag) {
+            new Notice("Enter both a Raindrop tag and an Obsidian tag");
+            return;
+          }
+          tagMappings[newRaindropTag] = newObsidianTag;
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
   }
 }